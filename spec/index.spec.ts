@@ -47,6 +47,84 @@ describe('Blockchain Indexer API', () => {
       const data = await response.json();
       expect(data.success).toBe(true);
       expect(data.height).toBe(1);
+      expect(data.alreadyApplied).toBe(false);
+    });
+
+    test('should accept re-submission of an applied block without reapplying it', async () => {
+      await resetDatabase();
+
+      const block1 = {
+        id: calculateBlockHash(1, ['tx1']),
+        height: 1,
+        transactions: [{
+          id: 'tx1',
+          inputs: [],
+          outputs: [{
+            address: 'addr1',
+            value: 100
+          }]
+        }]
+      };
+
+      const block2 = {
+        id: calculateBlockHash(2, ['tx2']),
+        height: 2,
+        transactions: [{
+          id: 'tx2',
+          inputs: [{
+            txId: 'tx1',
+            index: 0
+          }],
+          outputs: [{
+            address: 'addr2',
+            value: 100
+          }]
+        }]
+      };
+
+      for (const block of [block1, block2]) {
+        await fetch(`${API_URL}/blocks`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(block)
+        });
+      }
+
+      for (const block of [block2, block1]) {
+        const response = await fetch(`${API_URL}/blocks`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(block)
+        });
+
+        expect(response.status).toBe(200);
+        const data = await response.json();
+        expect(data).toEqual({ success: true, height: block.height, alreadyApplied: true });
+      }
+
+      const healthResponse = await fetch(`${API_URL}/`);
+      const health = await healthResponse.json();
+      expect(health.currentHeight).toBe(2);
+
+      const addr2Response = await fetch(`${API_URL}/balance/addr2`);
+      const addr2Data = await addr2Response.json();
+      expect(addr2Data.balance).toBe('100');
+
+      // A different block at an existing height is still rejected
+      const competingBlock2 = {
+        id: calculateBlockHash(2, []),
+        height: 2,
+        transactions: []
+      };
+
+      const competingResponse = await fetch(`${API_URL}/blocks`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(competingBlock2)
+      });
+
+      expect(competingResponse.status).toBe(400);
+      expect((await competingResponse.json()).code).toBe('INVALID_HEIGHT');
     });
 
     test('should reject block with incorrect height', async () => {
@@ -95,6 +173,25 @@ describe('Blockchain Indexer API', () => {
       expect(data.error).toContain('Invalid height');
     });
 
+    test('should reject fractional and out-of-range heights', async () => {
+      await resetDatabase();
+
+      for (const height of [1.5, 3000000000]) {
+        const block = { id: calculateBlockHash(height, []), height, transactions: [] };
+
+        for (const path of ['/blocks', '/blocks/batch']) {
+          const response = await fetch(`${API_URL}${path}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(path === '/blocks' ? block : [block])
+          });
+
+          expect(response.status).toBe(400);
+          expect((await response.json()).code).toBe('INVALID_HEIGHT');
+        }
+      }
+    });
+
     test('should reject block with incorrect hash', async () => {
       await resetDatabase();
 
@@ -193,7 +290,7 @@ describe('Blockchain Indexer API', () => {
       expect(data.error).toContain('Input/Output value mismatch');
     });
 
-    test('should process valid UTXO transactions', async () => {
+    test('should check value conservation per transaction', async () => {
       await resetDatabase();
 
       const block1 = {
@@ -205,6 +302,9 @@ describe('Blockchain Indexer API', () => {
           outputs: [{
             address: 'addr1',
             value: 100
+          }, {
+            address: 'addr2',
+            value: 100
           }]
         }]
       };
@@ -215,8 +315,9 @@ describe('Blockchain Indexer API', () => {
         body: JSON.stringify(block1)
       });
 
+      // tx2 inflates by 50 while tx3 burns 50: balanced in aggregate only
       const block2 = {
-        id: calculateBlockHash(2, ['tx2']),
+        id: calculateBlockHash(2, ['tx2', 'tx3']),
         height: 2,
         transactions: [{
           id: 'tx2',
@@ -225,11 +326,18 @@ describe('Blockchain Indexer API', () => {
             index: 0
           }],
           outputs: [{
-            address: 'addr2',
-            value: 40
-          }, {
             address: 'addr3',
-            value: 60
+            value: 150
+          }]
+        }, {
+          id: 'tx3',
+          inputs: [{
+            txId: 'tx1',
+            index: 1
+          }],
+          outputs: [{
+            address: 'addr4',
+            value: 50
           }]
         }]
       };
@@ -240,10 +348,13 @@ describe('Blockchain Indexer API', () => {
         body: JSON.stringify(block2)
       });
 
-      expect(response.status).toBe(200);
+      expect(response.status).toBe(400);
+      const data = await response.json();
+      expect(data.code).toBe('VALUE_MISMATCH');
+      expect(data.error).toContain('transaction tx2');
     });
 
-    test('should reject double spending', async () => {
+    test('should reject coinbase transactions after genesis without fees to claim', async () => {
       await resetDatabase();
 
       const block1 = {
@@ -266,16 +377,40 @@ describe('Blockchain Indexer API', () => {
       });
 
       const block2 = {
-        id: calculateBlockHash(2, ['tx2']),
+        id: calculateBlockHash(2, ['coinbase2']),
         height: 2,
         transactions: [{
-          id: 'tx2',
-          inputs: [{
-            txId: 'tx1',
-            index: 0
-          }],
+          id: 'coinbase2',
+          inputs: [],
           outputs: [{
             address: 'addr2',
+            value: 50
+          }]
+        }]
+      };
+
+      const response = await fetch(`${API_URL}/blocks`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(block2)
+      });
+
+      expect(response.status).toBe(400);
+      const data = await response.json();
+      expect(data.code).toBe('INVALID_COINBASE');
+    });
+
+    test('should process valid UTXO transactions', async () => {
+      await resetDatabase();
+
+      const block1 = {
+        id: calculateBlockHash(1, ['tx1']),
+        height: 1,
+        transactions: [{
+          id: 'tx1',
+          inputs: [],
+          outputs: [{
+            address: 'addr1',
             value: 100
           }]
         }]
@@ -284,21 +419,24 @@ describe('Blockchain Indexer API', () => {
       await fetch(`${API_URL}/blocks`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(block2)
+        body: JSON.stringify(block1)
       });
 
-      const block3 = {
-        id: calculateBlockHash(3, ['tx3']),
-        height: 3,
+      const block2 = {
+        id: calculateBlockHash(2, ['tx2']),
+        height: 2,
         transactions: [{
-          id: 'tx3',
+          id: 'tx2',
           inputs: [{
             txId: 'tx1',
             index: 0
           }],
           outputs: [{
+            address: 'addr2',
+            value: 40
+          }, {
             address: 'addr3',
-            value: 100
+            value: 60
           }]
         }]
       };
@@ -306,17 +444,13 @@ describe('Blockchain Indexer API', () => {
       const response = await fetch(`${API_URL}/blocks`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(block3)
+        body: JSON.stringify(block2)
       });
 
-      expect(response.status).toBe(409);  // 409 Conflict for double-spending
-      const data = await response.json();
-      expect(data.error).toContain('Output already spent');
+      expect(response.status).toBe(200);
     });
-  });
 
-  describe('GET /balance/:address', () => {
-    test('should return correct balance for address', async () => {
+    test('should allow spending outputs created earlier in the same block', async () => {
       await resetDatabase();
 
       const block1 = {
@@ -338,22 +472,53 @@ describe('Blockchain Indexer API', () => {
         body: JSON.stringify(block1)
       });
 
-      const response = await fetch(`${API_URL}/balance/addr1`);
-      expect(response.status).toBe(200);
-      const data = await response.json();
-      expect(data.address).toBe('addr1');
-      expect(data.balance).toBe(100);
-    });
+      const block2 = {
+        id: calculateBlockHash(2, ['tx2', 'tx3']),
+        height: 2,
+        transactions: [{
+          id: 'tx2',
+          inputs: [{
+            txId: 'tx1',
+            index: 0
+          }],
+          outputs: [{
+            address: 'addr2',
+            value: 100
+          }]
+        }, {
+          id: 'tx3',
+          inputs: [{
+            txId: 'tx2',
+            index: 0
+          }],
+          outputs: [{
+            address: 'addr3',
+            value: 70
+          }, {
+            address: 'addr2',
+            value: 30
+          }]
+        }]
+      };
+
+      const response = await fetch(`${API_URL}/blocks`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(block2)
+      });
 
-    test('should return 0 for unknown address', async () => {
-      const response = await fetch(`${API_URL}/balance/unknown_addr`);
       expect(response.status).toBe(200);
-      const data = await response.json();
-      expect(data.address).toBe('unknown_addr');
-      expect(data.balance).toBe(0);
+
+      const addr2Response = await fetch(`${API_URL}/balance/addr2`);
+      const addr2Data = await addr2Response.json();
+      expect(addr2Data.balance).toBe('30');
+
+      const addr3Response = await fetch(`${API_URL}/balance/addr3`);
+      const addr3Data = await addr3Response.json();
+      expect(addr3Data.balance).toBe('70');
     });
 
-    test('should update balance after spending', async () => {
+    test('should reject spending outputs created later in the same block', async () => {
       await resetDatabase();
 
       const block1 = {
@@ -376,9 +541,19 @@ describe('Blockchain Indexer API', () => {
       });
 
       const block2 = {
-        id: calculateBlockHash(2, ['tx2']),
+        id: calculateBlockHash(2, ['tx3', 'tx2']),
         height: 2,
         transactions: [{
+          id: 'tx3',
+          inputs: [{
+            txId: 'tx2',
+            index: 0
+          }],
+          outputs: [{
+            address: 'addr3',
+            value: 100
+          }]
+        }, {
           id: 'tx2',
           inputs: [{
             txId: 'tx1',
@@ -386,36 +561,23 @@ describe('Blockchain Indexer API', () => {
           }],
           outputs: [{
             address: 'addr2',
-            value: 40
-          }, {
-            address: 'addr3',
-            value: 60
+            value: 100
           }]
         }]
       };
 
-      await fetch(`${API_URL}/blocks`, {
+      const response = await fetch(`${API_URL}/blocks`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(block2)
       });
 
-      const addr1Response = await fetch(`${API_URL}/balance/addr1`);
-      const addr1Data = await addr1Response.json();
-      expect(addr1Data.balance).toBe(0);
-
-      const addr2Response = await fetch(`${API_URL}/balance/addr2`);
-      const addr2Data = await addr2Response.json();
-      expect(addr2Data.balance).toBe(40);
-
-      const addr3Response = await fetch(`${API_URL}/balance/addr3`);
-      const addr3Data = await addr3Response.json();
-      expect(addr3Data.balance).toBe(60);
+      expect(response.status).toBe(400);
+      const data = await response.json();
+      expect(data.code).toBe('INVALID_INPUT');
     });
-  });
 
-  describe('POST /rollback', () => {
-    test('should rollback to specified height', async () => {
+    test('should reject double spending', async () => {
       await resetDatabase();
 
       const block1 = {
@@ -448,10 +610,7 @@ describe('Blockchain Indexer API', () => {
           }],
           outputs: [{
             address: 'addr2',
-            value: 40
-          }, {
-            address: 'addr3',
-            value: 60
+            value: 100
           }]
         }]
       };
@@ -468,52 +627,115 @@ describe('Blockchain Indexer API', () => {
         transactions: [{
           id: 'tx3',
           inputs: [{
-            txId: 'tx2',
-            index: 1
+            txId: 'tx1',
+            index: 0
           }],
           outputs: [{
-            address: 'addr4',
-            value: 20
-          }, {
-            address: 'addr5',
-            value: 20
-          }, {
-            address: 'addr6',
-            value: 20
+            address: 'addr3',
+            value: 100
           }]
         }]
       };
 
-      await fetch(`${API_URL}/blocks`, {
+      const response = await fetch(`${API_URL}/blocks`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(block3)
       });
 
-      const rollbackResponse = await fetch(`${API_URL}/rollback?height=2`, {
-        method: 'POST'
-      });
-
-      expect(rollbackResponse.status).toBe(200);
+      expect(response.status).toBe(409);  // 409 Conflict for double-spending
+      const data = await response.json();
+      expect(data.error).toContain('Output already spent');
+    });
 
-      const addr1Response = await fetch(`${API_URL}/balance/addr1`);
-      const addr1Data = await addr1Response.json();
-      expect(addr1Data.balance).toBe(0);
+    test('should reject double spending within a single block', async () => {
+      await resetDatabase();
 
-      const addr2Response = await fetch(`${API_URL}/balance/addr2`);
-      const addr2Data = await addr2Response.json();
-      expect(addr2Data.balance).toBe(40);
+      const block1 = {
+        id: calculateBlockHash(1, ['tx1']),
+        height: 1,
+        transactions: [{
+          id: 'tx1',
+          inputs: [],
+          outputs: [{
+            address: 'addr1',
+            value: 100
+          }]
+        }]
+      };
 
-      const addr3Response = await fetch(`${API_URL}/balance/addr3`);
-      const addr3Data = await addr3Response.json();
-      expect(addr3Data.balance).toBe(60);
+      await fetch(`${API_URL}/blocks`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(block1)
+      });
 
-      const addr4Response = await fetch(`${API_URL}/balance/addr4`);
-      const addr4Data = await addr4Response.json();
-      expect(addr4Data.balance).toBe(0);
-    });
+      const sameTransaction = {
+        id: calculateBlockHash(2, ['tx2']),
+        height: 2,
+        transactions: [{
+          id: 'tx2',
+          inputs: [{
+            txId: 'tx1',
+            index: 0
+          }, {
+            txId: 'tx1',
+            index: 0
+          }],
+          outputs: [{
+            address: 'addr2',
+            value: 200
+          }]
+        }]
+      };
 
-    test('should reject rollback to future height', async () => {
+      const sameTxResponse = await fetch(`${API_URL}/blocks`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(sameTransaction)
+      });
+
+      expect(sameTxResponse.status).toBe(409);
+      expect((await sameTxResponse.json()).code).toBe('DOUBLE_SPEND');
+
+      const differentTransactions = {
+        id: calculateBlockHash(2, ['tx2', 'tx3']),
+        height: 2,
+        transactions: [{
+          id: 'tx2',
+          inputs: [{
+            txId: 'tx1',
+            index: 0
+          }],
+          outputs: [{
+            address: 'addr2',
+            value: 100
+          }]
+        }, {
+          id: 'tx3',
+          inputs: [{
+            txId: 'tx1',
+            index: 0
+          }],
+          outputs: [{
+            address: 'addr3',
+            value: 100
+          }]
+        }]
+      };
+
+      const response = await fetch(`${API_URL}/blocks`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(differentTransactions)
+      });
+
+      expect(response.status).toBe(409);
+      const data = await response.json();
+      expect(data.code).toBe('DOUBLE_SPEND');
+      expect(data.error).toContain('Output already spent');
+    });
+    test('should reject a transaction ID that is already on chain', async () => {
       await resetDatabase();
 
       const block1 = {
@@ -535,62 +757,117 @@ describe('Blockchain Indexer API', () => {
         body: JSON.stringify(block1)
       });
 
-      const response = await fetch(`${API_URL}/rollback?height=5`, {
-        method: 'POST'
+      const block2 = {
+        id: calculateBlockHash(2, ['tx1']),
+        height: 2,
+        transactions: [{
+          id: 'tx1',
+          inputs: [{
+            txId: 'tx1',
+            index: 0
+          }],
+          outputs: [{
+            address: 'addr2',
+            value: 100
+          }]
+        }]
+      };
+
+      const response = await fetch(`${API_URL}/blocks`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(block2)
       });
 
-      expect(response.status).toBe(400);
+      expect(response.status).toBe(409);
       const data = await response.json();
-      expect(data.error).toContain('Cannot rollback to future height');
+      expect(data.code).toBe('DUPLICATE_TRANSACTION');
+      expect(data.error).toContain('tx1');
+
+      const healthResponse = await fetch(`${API_URL}/`);
+      const health = await healthResponse.json();
+      expect(health.currentHeight).toBe(1);
     });
 
-    test('should reject rollback more than 2000 blocks', async () => {
+    test('should reject a transaction ID repeated within a block', async () => {
       await resetDatabase();
 
-      // Create exactly 2001 blocks to test the limit
-      for (let i = 1; i <= 2001; i++) {
-        // First block has genesis transaction, rest are empty
-        const transactions = i === 1
-          ? [{
-              id: `tx${i}`,
-              inputs: [],
-              outputs: [{
-                address: `addr${i}`,
-                value: 100
-              }]
-            }]
-          : [];
-
-        const transactionIds = transactions.map(tx => tx.id);
-        const block = {
-          id: calculateBlockHash(i, transactionIds),
-          height: i,
-          transactions: transactions
-        };
-
-        await fetch(`${API_URL}/blocks`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(block)
-        });
-      }
+      const block = {
+        id: calculateBlockHash(1, ['tx1', 'tx1']),
+        height: 1,
+        transactions: [{
+          id: 'tx1',
+          inputs: [],
+          outputs: [{
+            address: 'addr1',
+            value: 100
+          }]
+        }, {
+          id: 'tx1',
+          inputs: [],
+          outputs: [{
+            address: 'addr2',
+            value: 100
+          }]
+        }]
+      };
 
-      // Try to rollback to height 0, which would be rolling back 2001 blocks (more than 2000)
-      const response = await fetch(`${API_URL}/rollback?height=0`, {
-        method: 'POST'
+      const response = await fetch(`${API_URL}/blocks`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(block)
       });
 
       expect(response.status).toBe(400);
       const data = await response.json();
-      expect(data.error).toContain('Cannot rollback more than 2000 blocks');
-
-      // Clean up by resetting the database
-      await resetDatabase();
+      expect(data.code).toBe('DUPLICATE_TRANSACTION');
+      expect(data.error).toBe('Duplicate transaction ID in block: tx1');
     });
 
-    test('should restore spent outputs after rollback', async () => {
+    test('should accept only one of several concurrent blocks at the same height', async () => {
       await resetDatabase();
 
+      const competingBlocks = ['txA', 'txB', 'txC', 'txD'].map(txId => ({
+        id: calculateBlockHash(1, [txId]),
+        height: 1,
+        transactions: [{
+          id: txId,
+          inputs: [],
+          outputs: [{
+            address: 'addr1',
+            value: 100
+          }]
+        }]
+      }));
+
+      const responses = await Promise.all(
+        competingBlocks.map(block =>
+          fetch(`${API_URL}/blocks`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(block)
+          })
+        )
+      );
+
+      const accepted = responses.filter(response => response.status === 200);
+      const rejected = responses.filter(response => response.status !== 200);
+      expect(accepted).toHaveLength(1);
+      expect(rejected).toHaveLength(3);
+
+      for (const response of rejected) {
+        expect(response.status).toBe(400);
+        expect((await response.json()).code).toBe('INVALID_HEIGHT');
+      }
+
+      const balanceResponse = await fetch(`${API_URL}/balance/addr1`);
+      const balanceData = await balanceResponse.json();
+      expect(balanceData.balance).toBe('100');
+    });
+  });
+
+  describe('GET /blocks and GET /transactions/:txId', () => {
+    async function submitChain() {
       const block1 = {
         id: calculateBlockHash(1, ['tx1']),
         height: 1,
@@ -621,7 +898,10 @@ describe('Blockchain Indexer API', () => {
           }],
           outputs: [{
             address: 'addr2',
-            value: 100
+            value: 40
+          }, {
+            address: 'addr3',
+            value: 60
           }]
         }]
       };
@@ -632,17 +912,1776 @@ describe('Blockchain Indexer API', () => {
         body: JSON.stringify(block2)
       });
 
-      await fetch(`${API_URL}/rollback?height=1`, {
-        method: 'POST'
+      return { block1, block2 };
+    }
+
+    test('should return block by height and by id', async () => {
+      await resetDatabase();
+      const { block2 } = await submitChain();
+
+      const byHeight = await fetch(`${API_URL}/blocks/2`);
+      expect(byHeight.status).toBe(200);
+      const data = await byHeight.json();
+      expect(data.id).toBe(block2.id);
+      expect(data.height).toBe(2);
+      expect(data.transactions).toEqual([{
+        id: 'tx2',
+        blockId: block2.id,
+        height: 2,
+        fee: '0',
+        inputs: [{ txId: 'tx1', index: 0, address: 'addr1', value: '100' }],
+        outputs: [
+          { index: 0, address: 'addr2', value: '40', spent: false, spentByTx: null },
+          { index: 1, address: 'addr3', value: '60', spent: false, spentByTx: null }
+        ]
+      }]);
+
+      const byId = await fetch(`${API_URL}/blocks/${block2.id}`);
+      expect(byId.status).toBe(200);
+      expect(await byId.json()).toEqual(data);
+    });
+
+    test('should preserve transaction and input order', async () => {
+      await resetDatabase();
+
+      const block1 = {
+        id: calculateBlockHash(1, ['txb', 'txa']),
+        height: 1,
+        transactions: [{
+          id: 'txb',
+          inputs: [],
+          outputs: [{
+            address: 'addr1',
+            value: 10
+          }]
+        }, {
+          id: 'txa',
+          inputs: [],
+          outputs: [{
+            address: 'addr1',
+            value: 20
+          }]
+        }]
+      };
+
+      await fetch(`${API_URL}/blocks`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(block1)
       });
 
-      const addr1Response = await fetch(`${API_URL}/balance/addr1`);
-      const addr1Data = await addr1Response.json();
-      expect(addr1Data.balance).toBe(100);
+      const block2 = {
+        id: calculateBlockHash(2, ['txc']),
+        height: 2,
+        transactions: [{
+          id: 'txc',
+          inputs: [{
+            txId: 'txb',
+            index: 0
+          }, {
+            txId: 'txa',
+            index: 0
+          }],
+          outputs: [{
+            address: 'addr2',
+            value: 30
+          }]
+        }]
+      };
 
-      const addr2Response = await fetch(`${API_URL}/balance/addr2`);
-      const addr2Data = await addr2Response.json();
-      expect(addr2Data.balance).toBe(0);
+      await fetch(`${API_URL}/blocks`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(block2)
+      });
+
+      const genesis = await (await fetch(`${API_URL}/blocks/1`)).json();
+      const txIds = genesis.transactions.map((tx: any) => tx.id);
+      expect(txIds).toEqual(['txb', 'txa']);
+      expect(calculateBlockHash(genesis.height, txIds)).toBe(genesis.id);
+
+      const spending = await (await fetch(`${API_URL}/transactions/txc`)).json();
+      expect(spending.inputs.map((input: any) => input.txId)).toEqual(['txb', 'txa']);
+    });
+
+    test('should return blocks in range', async () => {
+      await resetDatabase();
+      await submitChain();
+
+      const response = await fetch(`${API_URL}/blocks?from=1&to=5`);
+      expect(response.status).toBe(200);
+      const data = await response.json();
+      expect(data.blocks.map((block: any) => block.height)).toEqual([1, 2]);
+      expect(data.blocks[0].transactions[0].outputs[0].spentByTx).toBe('tx2');
+    });
+
+    test('should return transaction by id', async () => {
+      await resetDatabase();
+      const { block1 } = await submitChain();
+
+      const response = await fetch(`${API_URL}/transactions/tx1`);
+      expect(response.status).toBe(200);
+      const data = await response.json();
+      expect(data.blockId).toBe(block1.id);
+      expect(data.inputs).toEqual([]);
+      expect(data.outputs).toEqual([
+        { index: 0, address: 'addr1', value: '100', spent: true, spentByTx: 'tx2' }
+      ]);
+    });
+
+    test('should store input signatures and public keys', async () => {
+      await resetDatabase();
+
+      const block1 = {
+        id: calculateBlockHash(1, ['tx1']),
+        height: 1,
+        transactions: [{
+          id: 'tx1',
+          inputs: [],
+          outputs: [{ address: 'addr1', value: 10 }]
+        }]
+      };
+      const block2 = {
+        id: calculateBlockHash(2, ['tx2']),
+        height: 2,
+        transactions: [{
+          id: 'tx2',
+          inputs: [{ txId: 'tx1', index: 0, signature: 'abcd', publicKey: '0123' }],
+          outputs: [{ address: 'addr2', value: 10 }]
+        }]
+      };
+
+      for (const block of [block1, block2]) {
+        const response = await fetch(`${API_URL}/blocks`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(block)
+        });
+        expect(response.status).toBe(200);
+      }
+
+      const data = await (await fetch(`${API_URL}/transactions/tx2`)).json();
+      expect(data.inputs).toEqual([
+        { txId: 'tx1', index: 0, address: 'addr1', value: '10', signature: 'abcd', publicKey: '0123' }
+      ]);
+    });
+
+    test('should reject non-hex input signatures', async () => {
+      await resetDatabase();
+
+      const response = await fetch(`${API_URL}/blocks`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          id: calculateBlockHash(1, ['tx1']),
+          height: 1,
+          transactions: [{
+            id: 'tx1',
+            inputs: [{ txId: 'tx0', index: 0, signature: 'not-hex' }],
+            outputs: []
+          }]
+        })
+      });
+      expect(response.status).toBe(400);
+    });
+
+    test('should return 404 for unknown block or transaction', async () => {
+      await resetDatabase();
+
+      const blockResponse = await fetch(`${API_URL}/blocks/42`);
+      expect(blockResponse.status).toBe(404);
+      expect((await blockResponse.json()).code).toBe('BLOCK_NOT_FOUND');
+
+      const txResponse = await fetch(`${API_URL}/transactions/unknown_tx`);
+      expect(txResponse.status).toBe(404);
+      expect((await txResponse.json()).code).toBe('TRANSACTION_NOT_FOUND');
+    });
+
+    test('should handle heights beyond the INTEGER range', async () => {
+      const blockResponse = await fetch(`${API_URL}/blocks/99999999999`);
+      expect(blockResponse.status).toBe(404);
+      expect((await blockResponse.json()).code).toBe('BLOCK_NOT_FOUND');
+
+      const rangeResponse = await fetch(`${API_URL}/blocks?from=99999999990&to=99999999999`);
+      expect(rangeResponse.status).toBe(400);
+      expect((await rangeResponse.json()).code).toBe('INVALID_RANGE');
+    });
+
+    test('should reject invalid block range', async () => {
+      const response = await fetch(`${API_URL}/blocks?from=5&to=1`);
+      expect(response.status).toBe(400);
+      const data = await response.json();
+      expect(data.code).toBe('INVALID_RANGE');
+    });
+  });
+
+  describe('GET /balance/:address', () => {
+    test('should return correct balance for address', async () => {
+      await resetDatabase();
+
+      const block1 = {
+        id: calculateBlockHash(1, ['tx1']),
+        height: 1,
+        transactions: [{
+          id: 'tx1',
+          inputs: [],
+          outputs: [{
+            address: 'addr1',
+            value: 100
+          }]
+        }]
+      };
+
+      await fetch(`${API_URL}/blocks`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(block1)
+      });
+
+      const response = await fetch(`${API_URL}/balance/addr1`);
+      expect(response.status).toBe(200);
+      const data = await response.json();
+      expect(data.address).toBe('addr1');
+      expect(data.balance).toBe('100');
+    });
+
+    test('should round-trip large decimal values exactly', async () => {
+      await resetDatabase();
+
+      const block1 = {
+        id: calculateBlockHash(1, ['tx1']),
+        height: 1,
+        transactions: [{
+          id: 'tx1',
+          inputs: [],
+          outputs: [{
+            address: 'addr1',
+            value: '92233720368547758.07'
+          }, {
+            address: 'addr1',
+            value: '0.00000001'
+          }]
+        }]
+      };
+
+      const postResponse = await fetch(`${API_URL}/blocks`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(block1)
+      });
+      expect(postResponse.status).toBe(200);
+
+      const response = await fetch(`${API_URL}/balance/addr1`);
+      const data = await response.json();
+      expect(data.balance).toBe('92233720368547758.07000001');
+    });
+
+    test('should return 0 for unknown address', async () => {
+      const response = await fetch(`${API_URL}/balance/unknown_addr`);
+      expect(response.status).toBe(200);
+      const data = await response.json();
+      expect(data.address).toBe('unknown_addr');
+      expect(data.balance).toBe('0');
+    });
+
+    test('should update balance after spending', async () => {
+      await resetDatabase();
+
+      const block1 = {
+        id: calculateBlockHash(1, ['tx1']),
+        height: 1,
+        transactions: [{
+          id: 'tx1',
+          inputs: [],
+          outputs: [{
+            address: 'addr1',
+            value: 100
+          }]
+        }]
+      };
+
+      await fetch(`${API_URL}/blocks`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(block1)
+      });
+
+      const block2 = {
+        id: calculateBlockHash(2, ['tx2']),
+        height: 2,
+        transactions: [{
+          id: 'tx2',
+          inputs: [{
+            txId: 'tx1',
+            index: 0
+          }],
+          outputs: [{
+            address: 'addr2',
+            value: 40
+          }, {
+            address: 'addr3',
+            value: 60
+          }]
+        }]
+      };
+
+      await fetch(`${API_URL}/blocks`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(block2)
+      });
+
+      const addr1Response = await fetch(`${API_URL}/balance/addr1`);
+      const addr1Data = await addr1Response.json();
+      expect(addr1Data.balance).toBe('0');
+
+      const addr2Response = await fetch(`${API_URL}/balance/addr2`);
+      const addr2Data = await addr2Response.json();
+      expect(addr2Data.balance).toBe('40');
+
+      const addr3Response = await fetch(`${API_URL}/balance/addr3`);
+      const addr3Data = await addr3Response.json();
+      expect(addr3Data.balance).toBe('60');
+    });
+
+    test('should return historical balance at a given height', async () => {
+      await resetDatabase();
+
+      const block1 = {
+        id: calculateBlockHash(1, ['tx1']),
+        height: 1,
+        transactions: [{
+          id: 'tx1',
+          inputs: [],
+          outputs: [{
+            address: 'addr1',
+            value: 100
+          }]
+        }]
+      };
+
+      await fetch(`${API_URL}/blocks`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(block1)
+      });
+
+      const block2 = {
+        id: calculateBlockHash(2, ['tx2']),
+        height: 2,
+        transactions: [{
+          id: 'tx2',
+          inputs: [{
+            txId: 'tx1',
+            index: 0
+          }],
+          outputs: [{
+            address: 'addr2',
+            value: 40
+          }, {
+            address: 'addr3',
+            value: 60
+          }]
+        }]
+      };
+
+      await fetch(`${API_URL}/blocks`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(block2)
+      });
+
+      const addr1AtGenesis = await fetch(`${API_URL}/balance/addr1?atHeight=1`);
+      const addr1AtGenesisData = await addr1AtGenesis.json();
+      expect(addr1AtGenesisData.balance).toBe('100');
+      expect(addr1AtGenesisData.height).toBe(1);
+
+      const addr2AtGenesis = await fetch(`${API_URL}/balance/addr2?atHeight=1`);
+      const addr2AtGenesisData = await addr2AtGenesis.json();
+      expect(addr2AtGenesisData.balance).toBe('0');
+
+      const addr1AtTip = await fetch(`${API_URL}/balance/addr1?atHeight=2`);
+      const addr1AtTipData = await addr1AtTip.json();
+      expect(addr1AtTipData.balance).toBe('0');
+
+      const addr3AtTip = await fetch(`${API_URL}/balance/addr3?atHeight=2`);
+      const addr3AtTipData = await addr3AtTip.json();
+      expect(addr3AtTipData.balance).toBe('60');
+    });
+
+    test('should keep balances consistent across rollback and reapply', async () => {
+      await resetDatabase();
+
+      const block1 = {
+        id: calculateBlockHash(1, ['tx1']),
+        height: 1,
+        transactions: [{
+          id: 'tx1',
+          inputs: [],
+          outputs: [{
+            address: 'addr1',
+            value: 100
+          }]
+        }]
+      };
+
+      const block2 = {
+        id: calculateBlockHash(2, ['tx2']),
+        height: 2,
+        transactions: [{
+          id: 'tx2',
+          inputs: [{
+            txId: 'tx1',
+            index: 0
+          }],
+          outputs: [{
+            address: 'addr1',
+            value: 40
+          }, {
+            address: 'addr2',
+            value: 60
+          }]
+        }]
+      };
+
+      for (const block of [block1, block2]) {
+        await fetch(`${API_URL}/blocks`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(block)
+        });
+      }
+
+      await fetch(`${API_URL}/rollback?height=1`, {
+        method: 'POST'
+      });
+
+      await fetch(`${API_URL}/blocks`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(block2)
+      });
+
+      const addr1Response = await fetch(`${API_URL}/balance/addr1`);
+      const addr1Data = await addr1Response.json();
+      expect(addr1Data.balance).toBe('40');
+
+      const addr2Response = await fetch(`${API_URL}/balance/addr2`);
+      const addr2Data = await addr2Response.json();
+      expect(addr2Data.balance).toBe('60');
+    });
+
+    test('should reject balance query at future height', async () => {
+      const response = await fetch(`${API_URL}/balance/addr1?atHeight=100`);
+      expect(response.status).toBe(400);
+      const data = await response.json();
+      expect(data.code).toBe('FUTURE_HEIGHT');
+    });
+  });
+
+  describe('GET /addresses/:address/utxos', () => {
+    test('should list unspent outputs for address', async () => {
+      await resetDatabase();
+
+      const block1 = {
+        id: calculateBlockHash(1, ['tx1']),
+        height: 1,
+        transactions: [{
+          id: 'tx1',
+          inputs: [],
+          outputs: [{
+            address: 'addr1',
+            value: 100
+          }, {
+            address: 'addr1',
+            value: 50
+          }]
+        }]
+      };
+
+      await fetch(`${API_URL}/blocks`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(block1)
+      });
+
+      const block2 = {
+        id: calculateBlockHash(2, ['tx2']),
+        height: 2,
+        transactions: [{
+          id: 'tx2',
+          inputs: [{
+            txId: 'tx1',
+            index: 0
+          }],
+          outputs: [{
+            address: 'addr2',
+            value: 70
+          }, {
+            address: 'addr1',
+            value: 30
+          }]
+        }]
+      };
+
+      await fetch(`${API_URL}/blocks`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(block2)
+      });
+
+      const response = await fetch(`${API_URL}/addresses/addr1/utxos`);
+      expect(response.status).toBe(200);
+      const data = await response.json();
+      expect(data.address).toBe('addr1');
+      expect(data.nextCursor).toBeNull();
+      expect(data.utxos).toEqual([
+        { txId: 'tx1', index: 1, value: '50', height: 1 },
+        { txId: 'tx2', index: 1, value: '30', height: 2 }
+      ]);
+    });
+
+    test('should paginate and filter by minimum value', async () => {
+      await resetDatabase();
+
+      const block1 = {
+        id: calculateBlockHash(1, ['tx1']),
+        height: 1,
+        transactions: [{
+          id: 'tx1',
+          inputs: [],
+          outputs: [{
+            address: 'addr1',
+            value: 10
+          }, {
+            address: 'addr1',
+            value: 20
+          }, {
+            address: 'addr1',
+            value: 30
+          }]
+        }]
+      };
+
+      await fetch(`${API_URL}/blocks`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(block1)
+      });
+
+      const firstResponse = await fetch(`${API_URL}/addresses/addr1/utxos?limit=2`);
+      const firstPage = await firstResponse.json();
+      expect(firstPage.utxos.map((utxo: any) => utxo.index)).toEqual([0, 1]);
+      expect(firstPage.nextCursor).not.toBeNull();
+
+      const secondResponse = await fetch(
+        `${API_URL}/addresses/addr1/utxos?limit=2&cursor=${firstPage.nextCursor}`
+      );
+      const secondPage = await secondResponse.json();
+      expect(secondPage.utxos.map((utxo: any) => utxo.index)).toEqual([2]);
+      expect(secondPage.nextCursor).toBeNull();
+
+      const filteredResponse = await fetch(`${API_URL}/addresses/addr1/utxos?minValue=20`);
+      const filtered = await filteredResponse.json();
+      expect(filtered.utxos.map((utxo: any) => utxo.value)).toEqual(['20', '30']);
+    });
+
+    test('should reject invalid limit', async () => {
+      const response = await fetch(`${API_URL}/addresses/addr1/utxos?limit=0`);
+      expect(response.status).toBe(400);
+      const data = await response.json();
+      expect(data.code).toBe('INVALID_LIMIT');
+    });
+  });
+
+  describe('GET /addresses/:address/history', () => {
+    test('should return deltas and running balance per transaction', async () => {
+      await resetDatabase();
+
+      const block1 = {
+        id: calculateBlockHash(1, ['tx1']),
+        height: 1,
+        transactions: [{
+          id: 'tx1',
+          inputs: [],
+          outputs: [{
+            address: 'addr1',
+            value: 100
+          }]
+        }]
+      };
+
+      await fetch(`${API_URL}/blocks`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(block1)
+      });
+
+      const block2 = {
+        id: calculateBlockHash(2, ['tx2']),
+        height: 2,
+        transactions: [{
+          id: 'tx2',
+          inputs: [{
+            txId: 'tx1',
+            index: 0
+          }],
+          outputs: [{
+            address: 'addr2',
+            value: 40
+          }, {
+            address: 'addr1',
+            value: 60
+          }]
+        }]
+      };
+
+      await fetch(`${API_URL}/blocks`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(block2)
+      });
+
+      const block3 = {
+        id: calculateBlockHash(3, ['tx3']),
+        height: 3,
+        transactions: [{
+          id: 'tx3',
+          inputs: [{
+            txId: 'tx2',
+            index: 0
+          }],
+          outputs: [{
+            address: 'addr1',
+            value: 40
+          }]
+        }]
+      };
+
+      await fetch(`${API_URL}/blocks`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(block3)
+      });
+
+      const response = await fetch(`${API_URL}/addresses/addr1/history`);
+      expect(response.status).toBe(200);
+      const data = await response.json();
+      expect(data.address).toBe('addr1');
+      expect(data.history).toEqual([
+        { txId: 'tx1', height: 1, received: '100', sent: '0', delta: '100', balance: '100' },
+        { txId: 'tx2', height: 2, received: '60', sent: '100', delta: '-40', balance: '60' },
+        { txId: 'tx3', height: 3, received: '40', sent: '0', delta: '40', balance: '100' }
+      ]);
+    });
+
+    test('should return empty history for unknown address', async () => {
+      const response = await fetch(`${API_URL}/addresses/unknown_addr/history`);
+      expect(response.status).toBe(200);
+      const data = await response.json();
+      expect(data.history).toEqual([]);
+    });
+  });
+
+  describe('POST /rollback', () => {
+    test('should rollback to specified height', async () => {
+      await resetDatabase();
+
+      const block1 = {
+        id: calculateBlockHash(1, ['tx1']),
+        height: 1,
+        transactions: [{
+          id: 'tx1',
+          inputs: [],
+          outputs: [{
+            address: 'addr1',
+            value: 100
+          }]
+        }]
+      };
+
+      await fetch(`${API_URL}/blocks`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(block1)
+      });
+
+      const block2 = {
+        id: calculateBlockHash(2, ['tx2']),
+        height: 2,
+        transactions: [{
+          id: 'tx2',
+          inputs: [{
+            txId: 'tx1',
+            index: 0
+          }],
+          outputs: [{
+            address: 'addr2',
+            value: 40
+          }, {
+            address: 'addr3',
+            value: 60
+          }]
+        }]
+      };
+
+      await fetch(`${API_URL}/blocks`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(block2)
+      });
+
+      const block3 = {
+        id: calculateBlockHash(3, ['tx3']),
+        height: 3,
+        transactions: [{
+          id: 'tx3',
+          inputs: [{
+            txId: 'tx2',
+            index: 1
+          }],
+          outputs: [{
+            address: 'addr4',
+            value: 20
+          }, {
+            address: 'addr5',
+            value: 20
+          }, {
+            address: 'addr6',
+            value: 20
+          }]
+        }]
+      };
+
+      await fetch(`${API_URL}/blocks`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(block3)
+      });
+
+      const rollbackResponse = await fetch(`${API_URL}/rollback?height=2`, {
+        method: 'POST'
+      });
+
+      expect(rollbackResponse.status).toBe(200);
+
+      const addr1Response = await fetch(`${API_URL}/balance/addr1`);
+      const addr1Data = await addr1Response.json();
+      expect(addr1Data.balance).toBe('0');
+
+      const addr2Response = await fetch(`${API_URL}/balance/addr2`);
+      const addr2Data = await addr2Response.json();
+      expect(addr2Data.balance).toBe('40');
+
+      const addr3Response = await fetch(`${API_URL}/balance/addr3`);
+      const addr3Data = await addr3Response.json();
+      expect(addr3Data.balance).toBe('60');
+
+      const addr4Response = await fetch(`${API_URL}/balance/addr4`);
+      const addr4Data = await addr4Response.json();
+      expect(addr4Data.balance).toBe('0');
+    });
+
+    test('should reject rollback to future height', async () => {
+      await resetDatabase();
+
+      const block1 = {
+        id: calculateBlockHash(1, ['tx1']),
+        height: 1,
+        transactions: [{
+          id: 'tx1',
+          inputs: [],
+          outputs: [{
+            address: 'addr1',
+            value: 100
+          }]
+        }]
+      };
+
+      await fetch(`${API_URL}/blocks`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(block1)
+      });
+
+      const response = await fetch(`${API_URL}/rollback?height=5`, {
+        method: 'POST'
+      });
+
+      expect(response.status).toBe(400);
+      const data = await response.json();
+      expect(data.error).toContain('Cannot rollback to future height');
+    });
+
+    test('should reject rollback more than 2000 blocks', async () => {
+      await resetDatabase();
+
+      // Create exactly 2001 blocks to test the limit
+      for (let i = 1; i <= 2001; i++) {
+        // First block has genesis transaction, rest are empty
+        const transactions = i === 1
+          ? [{
+              id: `tx${i}`,
+              inputs: [],
+              outputs: [{
+                address: `addr${i}`,
+                value: 100
+              }]
+            }]
+          : [];
+
+        const transactionIds = transactions.map(tx => tx.id);
+        const block = {
+          id: calculateBlockHash(i, transactionIds),
+          height: i,
+          transactions: transactions
+        };
+
+        await fetch(`${API_URL}/blocks`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(block)
+        });
+      }
+
+      // Try to rollback to height 0, which would be rolling back 2001 blocks (more than 2000)
+      const response = await fetch(`${API_URL}/rollback?height=0`, {
+        method: 'POST'
+      });
+
+      expect(response.status).toBe(400);
+      const data = await response.json();
+      expect(data.error).toContain('Cannot rollback more than 2000 blocks');
+
+      // Clean up by resetting the database
+      await resetDatabase();
+    });
+
+    test('should restore spent outputs after rollback', async () => {
+      await resetDatabase();
+
+      const block1 = {
+        id: calculateBlockHash(1, ['tx1']),
+        height: 1,
+        transactions: [{
+          id: 'tx1',
+          inputs: [],
+          outputs: [{
+            address: 'addr1',
+            value: 100
+          }]
+        }]
+      };
+
+      await fetch(`${API_URL}/blocks`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(block1)
+      });
+
+      const block2 = {
+        id: calculateBlockHash(2, ['tx2']),
+        height: 2,
+        transactions: [{
+          id: 'tx2',
+          inputs: [{
+            txId: 'tx1',
+            index: 0
+          }],
+          outputs: [{
+            address: 'addr2',
+            value: 100
+          }]
+        }]
+      };
+
+      await fetch(`${API_URL}/blocks`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(block2)
+      });
+
+      await fetch(`${API_URL}/rollback?height=1`, {
+        method: 'POST'
+      });
+
+      const addr1Response = await fetch(`${API_URL}/balance/addr1`);
+      const addr1Data = await addr1Response.json();
+      expect(addr1Data.balance).toBe('100');
+
+      const addr2Response = await fetch(`${API_URL}/balance/addr2`);
+      const addr2Data = await addr2Response.json();
+      expect(addr2Data.balance).toBe('0');
+    });
+
+    test('should apply and roll back blocks with many inputs and outputs', async () => {
+      await resetDatabase();
+
+      const outputCount = 500;
+      const block1 = {
+        id: calculateBlockHash(1, ['tx1']),
+        height: 1,
+        transactions: [{
+          id: 'tx1',
+          inputs: [],
+          outputs: Array.from({ length: outputCount }, () => ({
+            address: 'addr1',
+            value: 2
+          }))
+        }]
+      };
+
+      const block1Response = await fetch(`${API_URL}/blocks`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(block1)
+      });
+      expect(block1Response.status).toBe(200);
+
+      // Spend every output of block 1, then respend the result within the same block
+      const block2 = {
+        id: calculateBlockHash(2, ['tx2', 'tx3']),
+        height: 2,
+        transactions: [
+          {
+            id: 'tx2',
+            inputs: Array.from({ length: outputCount }, (_, index) => ({
+              txId: 'tx1',
+              index
+            })),
+            outputs: [{
+              address: 'addr2',
+              value: outputCount * 2
+            }]
+          },
+          {
+            id: 'tx3',
+            inputs: [{ txId: 'tx2', index: 0 }],
+            outputs: [{
+              address: 'addr3',
+              value: outputCount * 2
+            }]
+          }
+        ]
+      };
+
+      const block2Response = await fetch(`${API_URL}/blocks`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(block2)
+      });
+      expect(block2Response.status).toBe(200);
+
+      const addr3Response = await fetch(`${API_URL}/balance/addr3`);
+      const addr3Data = await addr3Response.json();
+      expect(addr3Data.balance).toBe('1000');
+
+      await fetch(`${API_URL}/rollback?height=1`, {
+        method: 'POST'
+      });
+
+      const addr1Response = await fetch(`${API_URL}/balance/addr1`);
+      const addr1Data = await addr1Response.json();
+      expect(addr1Data.balance).toBe('1000');
+
+      const utxoResponse = await fetch(`${API_URL}/addresses/addr1/utxos?limit=1000`);
+      const utxoData = await utxoResponse.json();
+      expect(utxoData.utxos).toHaveLength(outputCount);
+    });
+  });
+
+  describe('POST /reorg', () => {
+    async function submitChain() {
+      const block1 = {
+        id: calculateBlockHash(1, ['tx1']),
+        height: 1,
+        transactions: [{
+          id: 'tx1',
+          inputs: [],
+          outputs: [{
+            address: 'addr1',
+            value: 100
+          }]
+        }]
+      };
+
+      await fetch(`${API_URL}/blocks`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(block1)
+      });
+
+      const block2 = {
+        id: calculateBlockHash(2, ['tx2']),
+        height: 2,
+        transactions: [{
+          id: 'tx2',
+          inputs: [{
+            txId: 'tx1',
+            index: 0
+          }],
+          outputs: [{
+            address: 'addr2',
+            value: 100
+          }]
+        }]
+      };
+
+      await fetch(`${API_URL}/blocks`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(block2)
+      });
+    }
+
+    test('should replace the tip with a competing branch', async () => {
+      await resetDatabase();
+      await submitChain();
+
+      const forkBlock2 = {
+        id: calculateBlockHash(2, ['tx2b']),
+        height: 2,
+        transactions: [{
+          id: 'tx2b',
+          inputs: [{
+            txId: 'tx1',
+            index: 0
+          }],
+          outputs: [{
+            address: 'addr3',
+            value: 100
+          }]
+        }]
+      };
+
+      const forkBlock3 = {
+        id: calculateBlockHash(3, ['tx3b']),
+        height: 3,
+        transactions: [{
+          id: 'tx3b',
+          inputs: [{
+            txId: 'tx2b',
+            index: 0
+          }],
+          outputs: [{
+            address: 'addr4',
+            value: 100
+          }]
+        }]
+      };
+
+      const response = await fetch(`${API_URL}/reorg`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ forkHeight: 1, blocks: [forkBlock2, forkBlock3] })
+      });
+
+      expect(response.status).toBe(200);
+      const data = await response.json();
+      expect(data.success).toBe(true);
+      expect(data.height).toBe(3);
+
+      const addr2Response = await fetch(`${API_URL}/balance/addr2`);
+      const addr2Data = await addr2Response.json();
+      expect(addr2Data.balance).toBe('0');
+
+      const addr4Response = await fetch(`${API_URL}/balance/addr4`);
+      const addr4Data = await addr4Response.json();
+      expect(addr4Data.balance).toBe('100');
+    });
+
+    test('should keep the original tip when a new block is invalid', async () => {
+      await resetDatabase();
+      await submitChain();
+
+      const forkBlock2 = {
+        id: calculateBlockHash(2, ['tx2b']),
+        height: 2,
+        transactions: [{
+          id: 'tx2b',
+          inputs: [{
+            txId: 'tx1',
+            index: 0
+          }],
+          outputs: [{
+            address: 'addr3',
+            value: 100
+          }]
+        }]
+      };
+
+      const invalidBlock3 = {
+        id: 'invalid_hash',
+        height: 3,
+        transactions: []
+      };
+
+      const response = await fetch(`${API_URL}/reorg`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ forkHeight: 1, blocks: [forkBlock2, invalidBlock3] })
+      });
+
+      expect(response.status).toBe(400);
+      const data = await response.json();
+      expect(data.code).toBe('INVALID_BLOCK_ID');
+
+      const healthResponse = await fetch(`${API_URL}/`);
+      const health = await healthResponse.json();
+      expect(health.currentHeight).toBe(2);
+
+      const addr2Response = await fetch(`${API_URL}/balance/addr2`);
+      const addr2Data = await addr2Response.json();
+      expect(addr2Data.balance).toBe('100');
+
+      const addr3Response = await fetch(`${API_URL}/balance/addr3`);
+      const addr3Data = await addr3Response.json();
+      expect(addr3Data.balance).toBe('0');
+    });
+
+    test('should reject fork point above current height', async () => {
+      await resetDatabase();
+      await submitChain();
+
+      const response = await fetch(`${API_URL}/reorg`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          forkHeight: 5,
+          blocks: [{ id: calculateBlockHash(6, []), height: 6, transactions: [] }]
+        })
+      });
+
+      expect(response.status).toBe(400);
+      const data = await response.json();
+      expect(data.code).toBe('FUTURE_HEIGHT');
+    });
+  });
+
+  describe('POST /blocks/validate', () => {
+    async function submitGenesis() {
+      const block1 = {
+        id: calculateBlockHash(1, ['tx1']),
+        height: 1,
+        transactions: [{
+          id: 'tx1',
+          inputs: [],
+          outputs: [{
+            address: 'addr1',
+            value: 100
+          }]
+        }]
+      };
+
+      await fetch(`${API_URL}/blocks`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(block1)
+      });
+    }
+
+    test('should report a valid block without applying it', async () => {
+      await resetDatabase();
+      await submitGenesis();
+
+      const block2 = {
+        id: calculateBlockHash(2, ['tx2']),
+        height: 2,
+        transactions: [{
+          id: 'tx2',
+          inputs: [{
+            txId: 'tx1',
+            index: 0
+          }],
+          outputs: [{
+            address: 'addr2',
+            value: 100
+          }]
+        }]
+      };
+
+      const response = await fetch(`${API_URL}/blocks/validate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(block2)
+      });
+
+      expect(response.status).toBe(200);
+      const data = await response.json();
+      expect(data).toEqual({ valid: true, violations: [] });
+
+      const healthResponse = await fetch(`${API_URL}/`);
+      const health = await healthResponse.json();
+      expect(health.currentHeight).toBe(1);
+
+      const addr1Response = await fetch(`${API_URL}/balance/addr1`);
+      const addr1Data = await addr1Response.json();
+      expect(addr1Data.balance).toBe('100');
+    });
+
+    test('should report every violation in the block', async () => {
+      await resetDatabase();
+      await submitGenesis();
+
+      const block = {
+        id: 'invalid_hash',
+        height: 3,
+        transactions: [{
+          id: 'tx1',
+          inputs: [],
+          outputs: [{
+            address: 'addr2',
+            value: 10
+          }]
+        }, {
+          id: 'tx2',
+          inputs: [{
+            txId: 'tx1',
+            index: 0
+          }],
+          outputs: [{
+            address: 'addr2',
+            value: 150
+          }]
+        }, {
+          id: 'tx3',
+          inputs: [{
+            txId: 'tx1',
+            index: 0
+          }, {
+            txId: 'missing',
+            index: 0
+          }],
+          outputs: [{
+            address: 'addr3',
+            value: 100
+          }]
+        }]
+      };
+
+      const response = await fetch(`${API_URL}/blocks/validate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(block)
+      });
+
+      expect(response.status).toBe(200);
+      const data = await response.json();
+      expect(data.valid).toBe(false);
+      expect(data.violations.map((violation: { code: string }) => violation.code)).toEqual([
+        'INVALID_HEIGHT',
+        'INVALID_BLOCK_ID',
+        'DUPLICATE_TRANSACTION',
+        'VALUE_MISMATCH',
+        'DOUBLE_SPEND',
+        'INVALID_INPUT',
+        'INVALID_COINBASE'
+      ]);
+    });
+
+    test('should report transaction IDs repeated within the block alongside other violations', async () => {
+      await resetDatabase();
+      await submitGenesis();
+
+      const block = {
+        id: calculateBlockHash(3, ['dup', 'dup']),
+        height: 3,
+        transactions: [
+          { id: 'dup', inputs: [], outputs: [] },
+          { id: 'dup', inputs: [], outputs: [] }
+        ]
+      };
+
+      const response = await fetch(`${API_URL}/blocks/validate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(block)
+      });
+
+      expect(response.status).toBe(200);
+      const data = await response.json();
+      expect(data.violations).toEqual([
+        { error: 'Invalid height. Expected 2, got 3', code: 'INVALID_HEIGHT' },
+        { error: 'Duplicate transaction ID in block: dup', code: 'DUPLICATE_TRANSACTION' }
+      ]);
+    });
+
+    test('should reject malformed blocks', async () => {
+      const response = await fetch(`${API_URL}/blocks/validate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ height: 1, transactions: [] })
+      });
+
+      expect(response.status).toBe(400);
+    });
+
+    test('should reject input indexes that cannot be stored', async () => {
+      await resetDatabase();
+      await submitGenesis();
+
+      for (const index of [0.5, 5000000000]) {
+        const block = {
+          id: calculateBlockHash(2, ['tx2']),
+          height: 2,
+          transactions: [{
+            id: 'tx2',
+            inputs: [{ txId: 'tx1', index }],
+            outputs: []
+          }]
+        };
+
+        for (const path of ['/blocks/validate', '/blocks']) {
+          const response = await fetch(`${API_URL}${path}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(block)
+          });
+
+          expect(response.status).toBe(400);
+          expect((await response.json()).code).toBe('INVALID_INPUT');
+        }
+      }
+    });
+  });
+
+  describe('POST /blocks/batch', () => {
+    function buildChain(count: number) {
+      const blocks = [];
+      for (let height = 1; height <= count; height++) {
+        const txId = `batch_tx${height}`;
+        blocks.push({
+          id: calculateBlockHash(height, [txId]),
+          height,
+          transactions: [{
+            id: txId,
+            inputs: height === 1 ? [] : [{ txId: `batch_tx${height - 1}`, index: 0 }],
+            outputs: [{
+              address: `batch_addr${height}`,
+              value: 50
+            }]
+          }]
+        });
+      }
+      return blocks;
+    }
+
+    test('should apply a JSON array of blocks', async () => {
+      await resetDatabase();
+
+      const response = await fetch(`${API_URL}/blocks/batch`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(buildChain(3))
+      });
+
+      expect(response.status).toBe(200);
+      const data = await response.json();
+      expect(data).toEqual({ success: true, height: 3, count: 3 });
+
+      const balanceResponse = await fetch(`${API_URL}/balance/batch_addr3`);
+      const balance = await balanceResponse.json();
+      expect(balance.balance).toBe('50');
+    });
+
+    test('should apply NDJSON blocks', async () => {
+      await resetDatabase();
+
+      const body = buildChain(3).map(block => JSON.stringify(block)).join('\n') + '\n';
+      const response = await fetch(`${API_URL}/blocks/batch`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-ndjson' },
+        body
+      });
+
+      expect(response.status).toBe(200);
+      const data = await response.json();
+      expect(data.height).toBe(3);
+      expect(data.count).toBe(3);
+    });
+
+    test('should reject malformed NDJSON', async () => {
+      await resetDatabase();
+
+      const response = await fetch(`${API_URL}/blocks/batch`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-ndjson' },
+        body: JSON.stringify(buildChain(1)[0]) + '\n{"id": "abc", "height": 2,\n'
+      });
+
+      expect(response.status).toBe(400);
+      const data = await response.json();
+      expect(data.code).toBe('INVALID_NDJSON');
+      expect(data.error).toStartWith('Invalid NDJSON body: line 2 is not valid JSON');
+    });
+
+    test('should skip blocks already on chain when a batch is retried', async () => {
+      await resetDatabase();
+
+      const blocks = buildChain(3);
+      const submit = (batch: any[]) => fetch(`${API_URL}/blocks/batch`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(batch)
+      });
+
+      await submit(blocks.slice(0, 2));
+
+      const retryResponse = await submit(blocks.slice(0, 2));
+      expect(retryResponse.status).toBe(200);
+      expect(await retryResponse.json()).toEqual({ success: true, height: 2, count: 0 });
+
+      // An overlapping batch applies only the blocks past the tip
+      const overlapResponse = await submit(blocks);
+      expect(overlapResponse.status).toBe(200);
+      expect(await overlapResponse.json()).toEqual({ success: true, height: 3, count: 1 });
+
+      const balanceResponse = await fetch(`${API_URL}/balance/batch_addr3`);
+      expect((await balanceResponse.json()).balance).toBe('50');
+    });
+
+    test('should apply nothing when any block is invalid', async () => {
+      await resetDatabase();
+
+      const blocks = buildChain(3);
+      blocks[2].id = 'invalid_hash';
+
+      const response = await fetch(`${API_URL}/blocks/batch`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(blocks)
+      });
+
+      expect(response.status).toBe(400);
+      const data = await response.json();
+      expect(data.code).toBe('INVALID_BLOCK_ID');
+      expect(data.error).toContain('Block at height 3');
+
+      const healthResponse = await fetch(`${API_URL}/`);
+      const health = await healthResponse.json();
+      expect(health.currentHeight).toBe(0);
+    });
+  });
+
+  describe('GET /stats/supply and GET /stats/richlist', () => {
+    async function submitChain() {
+      const block1 = {
+        id: calculateBlockHash(1, ['tx1']),
+        height: 1,
+        transactions: [{
+          id: 'tx1',
+          inputs: [],
+          outputs: [{
+            address: 'addr1',
+            value: 100
+          }]
+        }]
+      };
+
+      const block2 = {
+        id: calculateBlockHash(2, ['tx2']),
+        height: 2,
+        transactions: [{
+          id: 'tx2',
+          inputs: [{
+            txId: 'tx1',
+            index: 0
+          }],
+          outputs: [{
+            address: 'addr2',
+            value: 30
+          }, {
+            address: 'addr3',
+            value: 50
+          }, {
+            address: 'addr3',
+            value: 20
+          }]
+        }]
+      };
+
+      for (const block of [block1, block2]) {
+        await fetch(`${API_URL}/blocks`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(block)
+        });
+      }
+    }
+
+    test('should return supply statistics', async () => {
+      await resetDatabase();
+      await submitChain();
+
+      const response = await fetch(`${API_URL}/stats/supply`);
+      expect(response.status).toBe(200);
+      const data = await response.json();
+      expect(data).toEqual({
+        height: 2,
+        totalMinted: '100',
+        totalUnspent: '100',
+        utxoCount: 3,
+        addressCount: 2
+      });
+    });
+
+    test('should return empty supply for an empty chain', async () => {
+      await resetDatabase();
+
+      const response = await fetch(`${API_URL}/stats/supply`);
+      const data = await response.json();
+      expect(data).toEqual({
+        height: 0,
+        totalMinted: '0',
+        totalUnspent: '0',
+        utxoCount: 0,
+        addressCount: 0
+      });
+    });
+
+    test('should list addresses by balance', async () => {
+      await resetDatabase();
+      await submitChain();
+
+      const response = await fetch(`${API_URL}/stats/richlist`);
+      expect(response.status).toBe(200);
+      const data = await response.json();
+      expect(data.addresses).toEqual([
+        { rank: 1, address: 'addr3', balance: '70' },
+        { rank: 2, address: 'addr2', balance: '30' }
+      ]);
+
+      const limitedResponse = await fetch(`${API_URL}/stats/richlist?limit=1`);
+      const limitedData = await limitedResponse.json();
+      expect(limitedData.addresses).toHaveLength(1);
+      expect(limitedData.addresses[0].address).toBe('addr3');
+    });
+
+    test('should reject invalid limit', async () => {
+      const response = await fetch(`${API_URL}/stats/richlist?limit=0`);
+      expect(response.status).toBe(400);
+      const data = await response.json();
+      expect(data.code).toBe('INVALID_LIMIT');
+    });
+  });
+
+  describe('Block linkage and GET /chain/verify', () => {
+    const block1 = {
+      id: calculateBlockHash(1, ['tx1']),
+      height: 1,
+      transactions: [{
+        id: 'tx1',
+        inputs: [],
+        outputs: [{
+          address: 'addr1',
+          value: 100
+        }]
+      }]
+    };
+
+    test('should accept a block linked to the current tip', async () => {
+      await resetDatabase();
+
+      await fetch(`${API_URL}/blocks`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(block1)
+      });
+
+      const block2 = {
+        id: calculateBlockHash(2, []),
+        height: 2,
+        previousId: block1.id,
+        transactions: []
+      };
+
+      const response = await fetch(`${API_URL}/blocks`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(block2)
+      });
+      expect(response.status).toBe(200);
+
+      const blockResponse = await fetch(`${API_URL}/blocks/2`);
+      const data = await blockResponse.json();
+      expect(data.previousId).toBe(block1.id);
+    });
+
+    test('should reject a resubmitted block that claims a different parent', async () => {
+      await resetDatabase();
+
+      const block2 = {
+        id: calculateBlockHash(2, []),
+        height: 2,
+        previousId: block1.id,
+        transactions: []
+      };
+
+      for (const block of [block1, block2]) {
+        await fetch(`${API_URL}/blocks`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(block)
+        });
+      }
+
+      const retryResponse = await fetch(`${API_URL}/blocks`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(block2)
+      });
+      expect(retryResponse.status).toBe(200);
+      expect((await retryResponse.json()).alreadyApplied).toBe(true);
+
+      const forkResponse = await fetch(`${API_URL}/blocks`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...block2, previousId: 'bogus' })
+      });
+      expect(forkResponse.status).toBe(400);
+      expect((await forkResponse.json()).code).toBe('INVALID_PREVIOUS_ID');
+    });
+
+    test('should reject a block linked to a different tip', async () => {
+      await resetDatabase();
+
+      await fetch(`${API_URL}/blocks`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(block1)
+      });
+
+      const block2 = {
+        id: calculateBlockHash(2, []),
+        height: 2,
+        previousId: calculateBlockHash(1, ['other_tx']),
+        transactions: []
+      };
+
+      const response = await fetch(`${API_URL}/blocks`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(block2)
+      });
+
+      expect(response.status).toBe(400);
+      const data = await response.json();
+      expect(data.code).toBe('INVALID_PREVIOUS_ID');
+    });
+
+    test('should reject a genesis block with a previous block ID', async () => {
+      await resetDatabase();
+
+      const response = await fetch(`${API_URL}/blocks`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...block1, previousId: 'abc' })
+      });
+
+      expect(response.status).toBe(400);
+      const data = await response.json();
+      expect(data.code).toBe('INVALID_PREVIOUS_ID');
+    });
+
+    test('should verify an intact chain', async () => {
+      await resetDatabase();
+
+      const emptyResponse = await fetch(`${API_URL}/chain/verify`);
+      expect(await emptyResponse.json()).toEqual({
+        valid: true,
+        height: 0,
+        checkedBlocks: 0,
+        issues: []
+      });
+
+      const blocks = [
+        block1,
+        { id: calculateBlockHash(2, []), height: 2, transactions: [] },
+        { id: calculateBlockHash(3, []), height: 3, transactions: [] }
+      ];
+
+      for (const block of blocks) {
+        await fetch(`${API_URL}/blocks`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(block)
+        });
+      }
+
+      const response = await fetch(`${API_URL}/chain/verify`);
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({
+        valid: true,
+        height: 3,
+        checkedBlocks: 3,
+        issues: []
+      });
+    });
+  });
+
+  describe('GET /transactions/:txId/proof', () => {
+    function sha256(...parts: Buffer[]): Buffer {
+      const hash = createHash('sha256');
+      parts.forEach(part => hash.update(part));
+      return hash.digest();
+    }
+
+    test('should return a Merkle path that reproduces the root', async () => {
+      await resetDatabase();
+
+      const txIds = ['tx1', 'tx2', 'tx3'];
+      const block1 = {
+        id: calculateBlockHash(1, txIds),
+        height: 1,
+        transactions: txIds.map(id => ({
+          id,
+          inputs: [],
+          outputs: [{
+            address: `addr_${id}`,
+            value: 10
+          }]
+        }))
+      };
+
+      await fetch(`${API_URL}/blocks`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(block1)
+      });
+
+      const roots = new Set<string>();
+      for (const [index, txId] of txIds.entries()) {
+        const response = await fetch(`${API_URL}/transactions/${txId}/proof`);
+        expect(response.status).toBe(200);
+        const data = await response.json();
+
+        expect(data.txId).toBe(txId);
+        expect(data.blockId).toBe(block1.id);
+        expect(data.height).toBe(1);
+        expect(data.index).toBe(index);
+        expect(data.anchored).toBe(false);
+        expect(data.proof).toHaveLength(2);
+
+        let hash = sha256(Buffer.from([0x00]), Buffer.from(txId));
+        for (const step of data.proof) {
+          const sibling = Buffer.from(step.hash, 'hex');
+          hash = step.position === 'left'
+            ? sha256(Buffer.from([0x01]), sibling, hash)
+            : sha256(Buffer.from([0x01]), hash, sibling);
+        }
+
+        expect(hash.toString('hex')).toBe(data.merkleRoot);
+        roots.add(data.merkleRoot);
+      }
+
+      expect(roots.size).toBe(1);
+    });
+
+    test('should return 404 for unknown transaction', async () => {
+      const response = await fetch(`${API_URL}/transactions/unknown_tx/proof`);
+      expect(response.status).toBe(404);
+      const data = await response.json();
+      expect(data.code).toBe('TRANSACTION_NOT_FOUND');
     });
   });
 
@@ -671,7 +2710,7 @@ describe('Blockchain Indexer API', () => {
 
       let addr1Balance = await fetch(`${API_URL}/balance/addr1`);
       let addr1Data = await addr1Balance.json();
-      expect(addr1Data.balance).toBe(10);
+      expect(addr1Data.balance).toBe('10');
 
       const block2 = {
         id: calculateBlockHash(2, ['tx2']),
@@ -700,15 +2739,15 @@ describe('Blockchain Indexer API', () => {
 
       addr1Balance = await fetch(`${API_URL}/balance/addr1`);
       addr1Data = await addr1Balance.json();
-      expect(addr1Data.balance).toBe(0);
+      expect(addr1Data.balance).toBe('0');
 
       let addr2Balance = await fetch(`${API_URL}/balance/addr2`);
       let addr2Data = await addr2Balance.json();
-      expect(addr2Data.balance).toBe(4);
+      expect(addr2Data.balance).toBe('4');
 
       let addr3Balance = await fetch(`${API_URL}/balance/addr3`);
       let addr3Data = await addr3Balance.json();
-      expect(addr3Data.balance).toBe(6);
+      expect(addr3Data.balance).toBe('6');
 
       const block3 = {
         id: calculateBlockHash(3, ['tx3']),
@@ -740,27 +2779,27 @@ describe('Blockchain Indexer API', () => {
 
       addr1Balance = await fetch(`${API_URL}/balance/addr1`);
       addr1Data = await addr1Balance.json();
-      expect(addr1Data.balance).toBe(0);
+      expect(addr1Data.balance).toBe('0');
 
       addr2Balance = await fetch(`${API_URL}/balance/addr2`);
       addr2Data = await addr2Balance.json();
-      expect(addr2Data.balance).toBe(4);
+      expect(addr2Data.balance).toBe('4');
 
       addr3Balance = await fetch(`${API_URL}/balance/addr3`);
       addr3Data = await addr3Balance.json();
-      expect(addr3Data.balance).toBe(0);
+      expect(addr3Data.balance).toBe('0');
 
       let addr4Balance = await fetch(`${API_URL}/balance/addr4`);
       let addr4Data = await addr4Balance.json();
-      expect(addr4Data.balance).toBe(2);
+      expect(addr4Data.balance).toBe('2');
 
       let addr5Balance = await fetch(`${API_URL}/balance/addr5`);
       let addr5Data = await addr5Balance.json();
-      expect(addr5Data.balance).toBe(2);
+      expect(addr5Data.balance).toBe('2');
 
       let addr6Balance = await fetch(`${API_URL}/balance/addr6`);
       let addr6Data = await addr6Balance.json();
-      expect(addr6Data.balance).toBe(2);
+      expect(addr6Data.balance).toBe('2');
 
       await fetch(`${API_URL}/rollback?height=2`, {
         method: 'POST'
@@ -768,15 +2807,15 @@ describe('Blockchain Indexer API', () => {
 
       addr1Balance = await fetch(`${API_URL}/balance/addr1`);
       addr1Data = await addr1Balance.json();
-      expect(addr1Data.balance).toBe(0);
+      expect(addr1Data.balance).toBe('0');
 
       addr2Balance = await fetch(`${API_URL}/balance/addr2`);
       addr2Data = await addr2Balance.json();
-      expect(addr2Data.balance).toBe(4);
+      expect(addr2Data.balance).toBe('4');
 
       addr3Balance = await fetch(`${API_URL}/balance/addr3`);
       addr3Data = await addr3Balance.json();
-      expect(addr3Data.balance).toBe(6);
+      expect(addr3Data.balance).toBe('6');
     });
   });
 });
\ No newline at end of file
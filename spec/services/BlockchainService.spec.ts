@@ -0,0 +1,257 @@
+import { expect, test, describe, beforeAll, afterAll, beforeEach, afterEach } from 'bun:test';
+import { createHash, generateKeyPairSync, sign } from 'crypto';
+import { initializeDatabase, closeDatabase } from '../../src/db/connection';
+import { runMigrations } from '../../src/db/migrations';
+import { BlockchainService } from '../../src/services/BlockchainService';
+import { getBlockHashFunction } from '../../src/crypto/blockHash';
+import { secp256k1Supported, signingMessage } from '../../src/crypto/signature';
+import { config } from '../../src/config';
+import type { Block, Input, Transaction } from '../../src/types';
+
+// Exercises rules behind non-default settings, which the API tests can't switch
+// on because they run against a separately started server. Shares its database.
+describe('BlockchainService with non-default settings', () => {
+  let service: BlockchainService;
+
+  beforeAll(async () => {
+    await runMigrations(await initializeDatabase());
+  });
+
+  afterAll(async () => {
+    await service?.rollback(0);
+    await closeDatabase();
+  });
+
+  function sha256(...parts: (string | Buffer)[]): Buffer {
+    const hash = createHash('sha256');
+    parts.forEach(part => hash.update(part));
+    return hash.digest();
+  }
+
+  describe('inclusion proofs with the merkle hashing scheme', () => {
+    const defaultScheme = config.blockchain.blockHashScheme;
+    const blockHash = getBlockHashFunction('merkle');
+
+    beforeEach(async () => {
+      config.blockchain.blockHashScheme = 'merkle';
+      service = new BlockchainService(await initializeDatabase());
+      await service.rollback(0);
+    });
+
+    afterEach(() => {
+      config.blockchain.blockHashScheme = defaultScheme;
+    });
+
+    test('should return proofs that check out against the block ID', async () => {
+      const transactions: Transaction[] = ['tx1', 'tx2', 'tx3'].map(id => ({
+        id,
+        inputs: [],
+        outputs: [{ address: `addr_${id}`, value: 10n }],
+      }));
+      const block: Block = {
+        id: blockHash(1, transactions.map(tx => tx.id)),
+        height: 1,
+        transactions,
+      };
+
+      await service.processBlock(block);
+
+      for (const tx of transactions) {
+        const proof = await service.getTransactionProof(tx.id);
+        expect(proof.anchored).toBe(true);
+
+        let hash = sha256(Buffer.from([0x00]), tx.id);
+        for (const step of proof.proof) {
+          const sibling = Buffer.from(step.hash, 'hex');
+          hash =
+            step.position === 'left'
+              ? sha256(Buffer.from([0x01]), sibling, hash)
+              : sha256(Buffer.from([0x01]), hash, sibling);
+        }
+
+        expect(sha256(proof.height.toString(), hash.toString('hex')).toString('hex')).toBe(
+          block.id
+        );
+      }
+    });
+  });
+
+  describe('signature verification', () => {
+    const blockHash = getBlockHashFunction('sha256-concat');
+
+    beforeEach(async () => {
+      config.blockchain.verifySignatures = true;
+      service = new BlockchainService(await initializeDatabase());
+      await service.rollback(0);
+    });
+
+    afterEach(() => {
+      config.blockchain.verifySignatures = false;
+    });
+
+    function createOwner(type: 'ed25519' | 'p256' = 'ed25519') {
+      const { publicKey, privateKey } =
+        type === 'ed25519'
+          ? generateKeyPairSync('ed25519')
+          : generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+      const der = publicKey.export({ format: 'der', type: 'spki' });
+
+      return {
+        publicKey: der.toString('hex'),
+        address: sha256(der).toString('hex'),
+        sign: (tx: Transaction) =>
+          sign(type === 'ed25519' ? null : 'sha256', signingMessage(tx), privateKey).toString(
+            'hex'
+          ),
+      };
+    }
+
+    function createBlock(height: number, transactions: Transaction[]): Block {
+      return { id: blockHash(height, transactions.map(tx => tx.id)), height, transactions };
+    }
+
+    // Spends output 0 of the given transaction, signed by its owner unless overridden
+    function spend(
+      id: string,
+      from: string,
+      owner: ReturnType<typeof createOwner>,
+      to: string,
+      overrides: Partial<Input> = {}
+    ): Transaction {
+      const tx: Transaction = {
+        id,
+        inputs: [{ txId: from, index: 0 }],
+        outputs: [{ address: to, value: 10n }],
+      };
+      tx.inputs[0] = {
+        ...tx.inputs[0],
+        signature: owner.sign(tx),
+        publicKey: owner.publicKey,
+        ...overrides,
+      };
+      return tx;
+    }
+
+    async function fundGenesis(address: string): Promise<void> {
+      await service.processBlock(
+        createBlock(1, [{ id: 'tx1', inputs: [], outputs: [{ address, value: 10n }] }])
+      );
+    }
+
+    async function violationCodes(block: Block): Promise<(string | undefined)[]> {
+      const result = await service.validateCandidateBlock(block);
+      return result.violations.map(violation => violation.code);
+    }
+
+    test('should accept inputs signed by the owner of the spent output', async () => {
+      const owner = createOwner();
+      await fundGenesis(owner.address);
+
+      const alreadyApplied = await service.processBlock(
+        createBlock(2, [spend('tx2', 'tx1', owner, 'addr2')])
+      );
+
+      expect(alreadyApplied).toBe(false);
+      expect(await service.getBalance('addr2')).toBe(10n);
+    });
+
+    test('should accept P-256 signatures', async () => {
+      const owner = createOwner('p256');
+      await fundGenesis(owner.address);
+
+      await service.processBlock(createBlock(2, [spend('tx2', 'tx1', owner, 'addr2')]));
+
+      expect(await service.getBalance('addr2')).toBe(10n);
+    });
+
+    test('should check spends of outputs created earlier in the same block', async () => {
+      const owner = createOwner();
+      const recipient = createOwner();
+      await fundGenesis(owner.address);
+
+      const valid = createBlock(2, [
+        spend('tx2', 'tx1', owner, recipient.address),
+        spend('tx3', 'tx2', recipient, 'addr3'),
+      ]);
+      const stolen = createBlock(2, [
+        spend('tx2', 'tx1', owner, recipient.address),
+        spend('tx3', 'tx2', owner, 'addr3'),
+      ]);
+
+      expect(await violationCodes(stolen)).toEqual(['INVALID_SIGNATURE']);
+
+      await service.processBlock(valid);
+      expect(await service.getBalance('addr3')).toBe(10n);
+    });
+
+    test('should reject inputs without a signature or public key', async () => {
+      const owner = createOwner();
+      await fundGenesis(owner.address);
+
+      const block = createBlock(2, [
+        spend('tx2', 'tx1', owner, 'addr2', { signature: undefined }),
+      ]);
+
+      await expect(service.processBlock(block)).rejects.toThrow(
+        'Input tx1:0 must carry a signature and public key'
+      );
+      expect(
+        await violationCodes(
+          createBlock(2, [spend('tx2', 'tx1', owner, 'addr2', { publicKey: undefined })])
+        )
+      ).toEqual(['INVALID_SIGNATURE']);
+    });
+
+    test('should reject keys that do not hash to the output address', async () => {
+      const owner = createOwner();
+      const thief = createOwner();
+      await fundGenesis(owner.address);
+
+      const block = createBlock(2, [spend('tx2', 'tx1', thief, 'addr2')]);
+
+      await expect(service.processBlock(block)).rejects.toThrow(
+        `Public key for input tx1:0 does not match output address ${owner.address}`
+      );
+    });
+
+    test('should reject signatures that do not verify', async () => {
+      const owner = createOwner();
+      const other = createOwner();
+      await fundGenesis(owner.address);
+
+      const forged = spend('tx2', 'tx1', owner, 'addr2');
+      forged.inputs[0].signature = spend('tx2', 'tx1', other, 'addr2').inputs[0].signature;
+      const tampered = spend('tx2', 'tx1', owner, 'addr2');
+      tampered.outputs[0].address = 'addr3';
+
+      for (const tx of [forged, tampered]) {
+        await expect(service.processBlock(createBlock(2, [tx]))).rejects.toThrow(
+          'Invalid signature for input tx1:0'
+        );
+      }
+      expect(await service.getCurrentHeight()).toBe(1);
+    });
+
+    test.skipIf(secp256k1Supported)(
+      'should reject secp256k1 keys as unsupported where the runtime lacks the curve',
+      async () => {
+        const publicKey =
+          '3056301006072a8648ce3d020106052b8104000a03420004bb72574435aeacf06aa4d13202282fd3dc384c5c0ad89fff331ef520312881861f0f282826c87ceaf65aabc2cb40b06ffaf4d168b3f7b09ff2a0f43157a3d0ed';
+        await fundGenesis(sha256(Buffer.from(publicKey, 'hex')).toString('hex'));
+
+        const block = createBlock(2, [
+          {
+            id: 'tx2',
+            inputs: [{ txId: 'tx1', index: 0, signature: '3006020101020101', publicKey }],
+            outputs: [{ address: 'addr2', value: 10n }],
+          },
+        ]);
+
+        await expect(service.processBlock(block)).rejects.toThrow(
+          "Unsupported key type for input tx1:0: secp256k1 signatures can't be verified by this runtime"
+        );
+        expect(await violationCodes(block)).toEqual(['UNSUPPORTED_KEY_TYPE']);
+      }
+    );
+  });
+});
@@ -0,0 +1,39 @@
+import { expect, test, describe } from 'bun:test';
+import { getBlockHashFunction, registerBlockHashScheme } from '../../../src/crypto/blockHash';
+
+describe('blockHash', () => {
+  test('should hash height and concatenated IDs with sha256-concat', () => {
+    const hash = getBlockHashFunction('sha256-concat');
+    expect(hash(1, ['tx1'])).toBe(
+      'd1582b9e2cac15e170c39ef2e85855ffd7e6a820550a8ca16a2f016d366503dc'
+    );
+  });
+
+  test('should hash the concatenated preimage twice with double-sha256', () => {
+    const hash = getBlockHashFunction('double-sha256');
+    expect(hash(1, ['tx1'])).toBe(
+      'eb602e01d02fb98b9bbcdc9f78c1f6b439af7a54eec40c5a50351cf88f89311c'
+    );
+  });
+
+  test('should tell ID boundaries apart with merkle', () => {
+    const concat = getBlockHashFunction('sha256-concat');
+    const merkle = getBlockHashFunction('merkle');
+
+    expect(concat(1, ['ab', 'c'])).toBe(concat(1, ['a', 'bc']));
+    expect(merkle(1, ['ab', 'c'])).not.toBe(merkle(1, ['a', 'bc']));
+    expect(merkle(1, [])).not.toBe(merkle(2, []));
+  });
+
+  test('should use registered custom schemes', () => {
+    registerBlockHashScheme('test-height-only', height => `block-${height}`);
+    expect(getBlockHashFunction('test-height-only')(7, ['tx1'])).toBe('block-7');
+  });
+
+  test('should reject unknown and duplicate schemes', () => {
+    expect(() => getBlockHashFunction('md5')).toThrow('Unknown block hash scheme "md5"');
+    expect(() => registerBlockHashScheme('merkle', () => '')).toThrow(
+      'Block hash scheme "merkle" is already registered'
+    );
+  });
+});
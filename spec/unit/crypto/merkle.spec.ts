@@ -0,0 +1,72 @@
+import { expect, test, describe } from 'bun:test';
+import {
+  merkleLeaf,
+  merkleParent,
+  merkleProof,
+  merkleRoot,
+  verifyMerkleProof,
+} from '../../../src/crypto/merkle';
+
+describe('merkle', () => {
+  test('should use 32 zero bytes as the root of an empty list', () => {
+    expect(merkleRoot([])).toEqual(Buffer.alloc(32));
+  });
+
+  test('should use the leaf hash as the root of a single ID', () => {
+    expect(merkleRoot(['tx1'])).toEqual(merkleLeaf('tx1'));
+  });
+
+  test('should combine leaves pairwise', () => {
+    const left = merkleParent(merkleLeaf('tx1'), merkleLeaf('tx2'));
+    const right = merkleParent(merkleLeaf('tx3'), merkleLeaf('tx3'));
+
+    expect(merkleRoot(['tx1', 'tx2'])).toEqual(left);
+    expect(merkleRoot(['tx1', 'tx2', 'tx3'])).toEqual(merkleParent(left, right));
+  });
+
+  test('should depend on the order of IDs', () => {
+    expect(merkleRoot(['tx1', 'tx2'])).not.toEqual(merkleRoot(['tx2', 'tx1']));
+  });
+
+  test('should not treat an interior node as a leaf', () => {
+    const node = merkleParent(merkleLeaf('tx1'), merkleLeaf('tx2'));
+    expect(merkleLeaf(node.toString('latin1'))).not.toEqual(node);
+  });
+
+  describe('merkleProof', () => {
+    test('should produce proofs that verify for every leaf', () => {
+      for (let size = 1; size <= 7; size++) {
+        const ids = Array.from({ length: size }, (_, i) => `tx${i}`);
+        const root = merkleRoot(ids);
+
+        ids.forEach((id, index) => {
+          expect(verifyMerkleProof(id, merkleProof(ids, index), root)).toBe(true);
+        });
+      }
+    });
+
+    test('should list siblings from the leaf upwards', () => {
+      const proof = merkleProof(['tx1', 'tx2', 'tx3'], 2);
+
+      expect(proof).toEqual([
+        { hash: merkleLeaf('tx3').toString('hex'), position: 'right' },
+        {
+          hash: merkleParent(merkleLeaf('tx1'), merkleLeaf('tx2')).toString('hex'),
+          position: 'left',
+        },
+      ]);
+    });
+
+    test('should reject proofs for other IDs or roots', () => {
+      const ids = ['tx1', 'tx2', 'tx3', 'tx4'];
+      const proof = merkleProof(ids, 1);
+
+      expect(verifyMerkleProof('tx5', proof, merkleRoot(ids))).toBe(false);
+      expect(verifyMerkleProof('tx2', proof, merkleRoot(['tx1', 'tx2']))).toBe(false);
+    });
+
+    test('should throw error for an index outside the list', () => {
+      expect(() => merkleProof(['tx1'], 1)).toThrow('Leaf index 1 is out of range');
+    });
+  });
+});
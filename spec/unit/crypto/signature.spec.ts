@@ -0,0 +1,103 @@
+import { expect, test, describe } from 'bun:test';
+import { createHash, generateKeyPairSync, getCurves, sign, KeyObject } from 'crypto';
+import {
+  addressFromPublicKey,
+  secp256k1Supported,
+  signingMessage,
+  unsupportedKeyType,
+  verifySignature,
+} from '../../../src/crypto/signature';
+
+function publicKeyHex(key: KeyObject): string {
+  return key.export({ format: 'der', type: 'spki' }).toString('hex');
+}
+
+// Generated with Node: a secp256k1 key and its signature over the transfer below
+const SECP256K1_PUBLIC_KEY =
+  '3056301006072a8648ce3d020106052b8104000a03420004bb72574435aeacf06aa4d13202282fd3dc384c5c0ad89fff331ef520312881861f0f282826c87ceaf65aabc2cb40b06ffaf4d168b3f7b09ff2a0f43157a3d0ed';
+const SECP256K1_SIGNATURE =
+  '30450220437d3d051ef674d3fef94cc2811dcebd2c4af35bdfbfc81490c8332f034668270221009ed6703b309dc186a3e0822212a523e337fabe599f02c256d9522a4c0277ae88';
+
+describe('signature', () => {
+  const transfer = {
+    id: 'tx2',
+    inputs: [{ txId: 'tx1', index: 0 }],
+    outputs: [{ address: 'addr2', value: 100n }],
+  };
+  const message = signingMessage(transfer);
+
+  test('should sign the encoded inputs and outputs, ignoring signatures', () => {
+    const signed = {
+      ...transfer,
+      inputs: [{ txId: 'tx1', index: 0, signature: 'ab', publicKey: 'cd' }],
+    };
+
+    expect(message.toString()).toBe('{"inputs":[["tx1",0]],"outputs":[["addr2","100"]]}');
+    expect(signingMessage(signed)).toEqual(message);
+  });
+
+  test('should derive the address as the SHA256 of the public key', () => {
+    const { publicKey } = generateKeyPairSync('ed25519');
+    const der = publicKey.export({ format: 'der', type: 'spki' });
+
+    expect(addressFromPublicKey(der.toString('hex'))).toBe(
+      createHash('sha256').update(der).digest('hex')
+    );
+  });
+
+  test('should verify ed25519 signatures', () => {
+    const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+    const signature = sign(null, message, privateKey).toString('hex');
+
+    expect(verifySignature(message, publicKeyHex(publicKey), signature)).toBe(true);
+  });
+
+  test('should verify P-256 signatures', () => {
+    const { publicKey, privateKey } = generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+    const signature = sign('sha256', message, privateKey).toString('hex');
+
+    expect(verifySignature(message, publicKeyHex(publicKey), signature)).toBe(true);
+  });
+
+  test.skipIf(!secp256k1Supported)('should verify secp256k1 signatures', () => {
+    expect(verifySignature(message, SECP256K1_PUBLIC_KEY, SECP256K1_SIGNATURE)).toBe(true);
+  });
+
+  test('should flag secp256k1 keys only when the runtime cannot verify them', () => {
+    expect(unsupportedKeyType(SECP256K1_PUBLIC_KEY)).toBe(
+      secp256k1Supported ? null : 'secp256k1'
+    );
+    expect(secp256k1Supported).toBe(getCurves().includes('secp256k1'));
+  });
+
+  test('should not flag ed25519 or P-256 keys', () => {
+    const ed25519 = generateKeyPairSync('ed25519').publicKey;
+    const p256 = generateKeyPairSync('ec', { namedCurve: 'prime256v1' }).publicKey;
+
+    expect(unsupportedKeyType(publicKeyHex(ed25519))).toBeNull();
+    expect(unsupportedKeyType(publicKeyHex(p256))).toBeNull();
+  });
+
+  test('should reject signatures over a different message', () => {
+    const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+    const signature = sign(null, message, privateKey).toString('hex');
+    const tampered = signingMessage({
+      ...transfer,
+      outputs: [{ address: 'addr3', value: 100n }],
+    });
+
+    expect(verifySignature(tampered, publicKeyHex(publicKey), signature)).toBe(false);
+  });
+
+  test('should reject signatures made with another key', () => {
+    const { publicKey } = generateKeyPairSync('ed25519');
+    const { privateKey } = generateKeyPairSync('ed25519');
+    const signature = sign(null, message, privateKey).toString('hex');
+
+    expect(verifySignature(message, publicKeyHex(publicKey), signature)).toBe(false);
+  });
+
+  test('should reject unparseable public keys', () => {
+    expect(verifySignature(message, 'abcd', 'abcd')).toBe(false);
+  });
+});
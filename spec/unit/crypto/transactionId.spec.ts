@@ -0,0 +1,36 @@
+import { expect, test, describe } from 'bun:test';
+import { calculateTransactionId } from '../../../src/crypto/transactionId';
+
+describe('calculateTransactionId', () => {
+  const transfer = {
+    id: '',
+    inputs: [{ txId: 'tx1', index: 0 }],
+    outputs: [{ address: 'addr2', value: 100n }],
+  };
+
+  test('should hash the canonical encoding of inputs and outputs', () => {
+    expect(calculateTransactionId(transfer, 2)).toBe(
+      'e2c429735021e17b1c8304502ec4d2bdf6e9dad48aa225affb0708c7f7a6eb8d'
+    );
+  });
+
+  test('should not depend on the block height for transactions with inputs', () => {
+    expect(calculateTransactionId(transfer, 2)).toBe(calculateTransactionId(transfer, 3));
+  });
+
+  test('should commit coinbase transactions to the block height', () => {
+    const coinbase = { id: '', inputs: [], outputs: [{ address: 'miner', value: 50n }] };
+    expect(calculateTransactionId(coinbase, 2)).not.toBe(calculateTransactionId(coinbase, 3));
+  });
+
+  test('should change when any input or output changes', () => {
+    const id = calculateTransactionId(transfer, 2);
+
+    expect(
+      calculateTransactionId({ ...transfer, inputs: [{ txId: 'tx1', index: 1 }] }, 2)
+    ).not.toBe(id);
+    expect(
+      calculateTransactionId({ ...transfer, outputs: [{ address: 'addr2', value: 101n }] }, 2)
+    ).not.toBe(id);
+  });
+});
@@ -0,0 +1,53 @@
+import { expect, test, describe } from 'bun:test';
+import { mapDatabaseError } from '../../../src/db/errors';
+import { ConflictError, ValidationError } from '../../../src/errors';
+
+describe('mapDatabaseError', () => {
+  test('should map duplicate transaction IDs to a conflict', () => {
+    const error = mapDatabaseError({
+      code: '23505',
+      constraint: 'transactions_pkey',
+      detail: 'Key (id)=(tx1) already exists.',
+    });
+
+    expect(error).toBeInstanceOf(ConflictError);
+    expect(error?.statusCode).toBe(409);
+    expect(error?.code).toBe('DUPLICATE_TRANSACTION');
+    expect(error?.message).toBe('Duplicate transaction ID: tx1');
+  });
+
+  test('should map duplicate block heights to a conflict', () => {
+    const error = mapDatabaseError({
+      code: '23505',
+      constraint: 'blocks_height_key',
+      detail: 'Key (height)=(2) already exists.',
+    });
+
+    expect(error?.code).toBe('DUPLICATE_BLOCK');
+    expect(error?.message).toBe('Duplicate block height: 2');
+  });
+
+  test('should map unknown unique constraints to a generic conflict', () => {
+    const error = mapDatabaseError({ code: '23505', constraint: 'other_key' });
+
+    expect(error).toBeInstanceOf(ConflictError);
+    expect(error?.code).toBe('DUPLICATE_ENTRY');
+  });
+
+  test('should map foreign key violations to a validation error', () => {
+    const error = mapDatabaseError({
+      code: '23503',
+      detail: 'Key (block_id)=(abc) is not present in table "blocks".',
+    });
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error?.code).toBe('INVALID_REFERENCE');
+    expect(error?.message).toBe('Reference to unknown record: abc');
+  });
+
+  test('should leave other errors unmapped', () => {
+    expect(mapDatabaseError(new Error('connection refused'))).toBeUndefined();
+    expect(mapDatabaseError({ code: '57P01' })).toBeUndefined();
+    expect(mapDatabaseError(undefined)).toBeUndefined();
+  });
+});
@@ -0,0 +1,72 @@
+import { expect, test, describe } from 'bun:test';
+import { IssuancePolicy } from '../../../src/services/IssuancePolicy';
+
+describe('IssuancePolicy', () => {
+  test('should allow unrestricted minting in the genesis block', () => {
+    const policy = new IssuancePolicy({
+      policy: 'genesis-only',
+      blockReward: 0n,
+      halvingInterval: 1,
+    });
+
+    expect(policy.getSubsidy(1)).toBeNull();
+  });
+
+  test('should not mint after genesis with genesis-only policy', () => {
+    const policy = new IssuancePolicy({
+      policy: 'genesis-only',
+      blockReward: 50n,
+      halvingInterval: 1,
+    });
+
+    expect(policy.getSubsidy(2)).toBe(0n);
+    expect(policy.getSubsidy(1000)).toBe(0n);
+  });
+
+  test('should mint a fixed reward per block', () => {
+    const policy = new IssuancePolicy({
+      policy: 'fixed',
+      blockReward: 50n,
+      halvingInterval: 1,
+    });
+
+    expect(policy.getSubsidy(2)).toBe(50n);
+    expect(policy.getSubsidy(1000)).toBe(50n);
+  });
+
+  test('should halve the reward every interval', () => {
+    const policy = new IssuancePolicy({
+      policy: 'halving',
+      blockReward: 50n,
+      halvingInterval: 10,
+    });
+
+    expect(policy.getSubsidy(2)).toBe(50n);
+    expect(policy.getSubsidy(10)).toBe(50n);
+    expect(policy.getSubsidy(11)).toBe(25n);
+    expect(policy.getSubsidy(21)).toBe(12n);
+    expect(policy.getSubsidy(10000)).toBe(0n);
+  });
+
+  test('should throw error for unknown policy', () => {
+    expect(
+      () =>
+        new IssuancePolicy({
+          policy: 'unknown' as any,
+          blockReward: 0n,
+          halvingInterval: 1,
+        })
+    ).toThrow('Unknown issuance policy');
+  });
+
+  test('should throw error for non-integer halving interval', () => {
+    expect(
+      () =>
+        new IssuancePolicy({
+          policy: 'halving',
+          blockReward: 50n,
+          halvingInterval: NaN,
+        })
+    ).toThrow('Halving interval must be a positive number of blocks');
+  });
+});
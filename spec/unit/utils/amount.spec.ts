@@ -0,0 +1,79 @@
+import { expect, test, describe } from 'bun:test';
+import { formatAmount, parseAmount, serializeAmounts } from '../../../src/utils/amount';
+
+describe('amount', () => {
+  describe('parseAmount', () => {
+    test('should parse numbers and decimal strings into base units', () => {
+      expect(parseAmount(100)).toBe(10000000000n);
+      expect(parseAmount(0.1)).toBe(10000000n);
+      expect(parseAmount('0.00000001')).toBe(1n);
+      expect(parseAmount('1e-8')).toBe(1n);
+      expect(parseAmount('123456789012345678901234567890')).toBe(
+        12345678901234567890123456789000000000n
+      );
+    });
+
+    test('should throw error for negative or malformed amounts', () => {
+      expect(() => parseAmount(-1)).toThrow('Invalid amount');
+      expect(() => parseAmount('-1')).toThrow('Invalid amount');
+      expect(() => parseAmount('1,5')).toThrow('Invalid amount');
+      expect(() => parseAmount(null)).toThrow('Invalid amount');
+    });
+
+    test('should throw error for unsafe integers', () => {
+      expect(() => parseAmount(2 ** 60)).toThrow('send it as a string');
+    });
+
+    test('should throw error for amounts below the smallest unit', () => {
+      expect(() => parseAmount('0.000000001')).toThrow(
+        'has more than 8 decimal places'
+      );
+      expect(() => parseAmount('1e-20')).toThrow('has more than 8 decimal places');
+    });
+
+    test('should accept trailing zeros below the smallest unit', () => {
+      expect(parseAmount('1.50000000000')).toBe(150000000n);
+      expect(parseAmount('100e-10')).toBe(1n);
+    });
+
+    test('should throw error for huge exponents without computing them', () => {
+      const started = performance.now();
+
+      expect(() => parseAmount('1e-20000000')).toThrow('Amount exponent out of range');
+      expect(() => parseAmount('1e20000000')).toThrow('Amount exponent out of range');
+      expect(() => parseAmount('1e' + '9'.repeat(400))).toThrow('Amount exponent out of range');
+      expect(performance.now() - started).toBeLessThan(100);
+    });
+  });
+
+  describe('formatAmount', () => {
+    test('should format base units as decimal strings', () => {
+      expect(formatAmount(10000000000n)).toBe('100');
+      expect(formatAmount(150000000n)).toBe('1.5');
+      expect(formatAmount(1n)).toBe('0.00000001');
+      expect(formatAmount(-4000000000n)).toBe('-40');
+      expect(formatAmount(0n)).toBe('0');
+    });
+
+    test('should round-trip with parseAmount', () => {
+      const value = '92233720368547758.07123456';
+      expect(formatAmount(parseAmount(value))).toBe(value);
+    });
+  });
+
+  describe('serializeAmounts', () => {
+    test('should replace nested bigints with decimal strings', () => {
+      expect(
+        serializeAmounts({
+          address: 'addr1',
+          balance: 250000000n,
+          utxos: [{ txId: 'tx1', index: 0, value: 100000000n, height: 1 }],
+        })
+      ).toEqual({
+        address: 'addr1',
+        balance: '2.5',
+        utxos: [{ txId: 'tx1', index: 0, value: '1', height: 1 }],
+      });
+    });
+  });
+});
@@ -1,5 +1,7 @@
-import { expect, test, describe } from 'bun:test';
+import { expect, test, describe, beforeEach, afterEach } from 'bun:test';
 import { BlockValidator } from '../../../src/validators/BlockValidator';
+import { config } from '../../../src/config';
+import { calculateTransactionId } from '../../../src/crypto/transactionId';
 
 describe('BlockValidator', () => {
   describe('validateBlockSchema', () => {
@@ -22,7 +24,21 @@ describe('BlockValidator', () => {
       };
 
       const result = BlockValidator.validateBlockSchema(validBlock);
-      expect(result).toEqual(validBlock);
+      expect(result).toEqual({
+        ...validBlock,
+        transactions: [
+          {
+            id: 'tx1',
+            inputs: [],
+            outputs: [
+              {
+                address: 'addr1',
+                value: 10000000000n,
+              },
+            ],
+          },
+        ],
+      });
     });
 
     test('should throw error for missing block id', () => {
@@ -48,6 +64,20 @@ describe('BlockValidator', () => {
       );
     });
 
+    test('should throw error for heights that cannot be stored', () => {
+      for (const height of [1.5, 3000000000]) {
+        const invalidBlock = {
+          id: 'abc123',
+          height,
+          transactions: [],
+        };
+
+        expect(() => BlockValidator.validateBlockSchema(invalidBlock)).toThrow(
+          'Block height must be an integer no greater than 2147483647'
+        );
+      }
+    });
+
     test('should throw error for non-array transactions', () => {
       const invalidBlock = {
         id: 'abc123',
@@ -59,6 +89,98 @@ describe('BlockValidator', () => {
         'Block transactions must be an array'
       );
     });
+
+    test('should keep a previous block ID', () => {
+      const result = BlockValidator.validateBlockSchema({
+        id: 'abc123',
+        height: 2,
+        previousId: 'def456',
+        transactions: [],
+      });
+
+      expect(result.previousId).toBe('def456');
+    });
+
+    test('should throw error for invalid previous block ID', () => {
+      const invalidBlock = {
+        id: 'abc123',
+        height: 2,
+        previousId: '',
+        transactions: [],
+      };
+
+      expect(() => BlockValidator.validateBlockSchema(invalidBlock)).toThrow(
+        'Previous block ID must be a non-empty string'
+      );
+    });
+  });
+
+  describe('validateTransactionIds', () => {
+    test('should throw error for transaction ID repeated within the block', () => {
+      const block = {
+        id: 'abc123',
+        height: 1,
+        transactions: [
+          { id: 'tx1', inputs: [], outputs: [] },
+          { id: 'tx1', inputs: [], outputs: [] },
+        ],
+      };
+
+      expect(() => BlockValidator.validateTransactionIds(block)).toThrow(
+        'Duplicate transaction ID in block: tx1'
+      );
+    });
+
+    describe('with transaction ID verification', () => {
+      beforeEach(() => {
+        config.blockchain.verifyTransactionIds = true;
+      });
+
+      afterEach(() => {
+        config.blockchain.verifyTransactionIds = false;
+      });
+
+      const outputs = [{ address: 'addr1', value: 10000000000n }];
+      const contentId = calculateTransactionId({ id: '', inputs: [], outputs }, 1);
+
+      test('should accept transaction IDs that match their contents', () => {
+        const block = {
+          id: 'abc123',
+          height: 1,
+          transactions: [{ id: contentId, inputs: [], outputs }],
+        };
+
+        expect(() => BlockValidator.validateTransactionIds(block)).not.toThrow();
+      });
+
+      test('should throw error for transaction IDs that do not match their contents', () => {
+        const block = {
+          id: 'abc123',
+          height: 1,
+          transactions: [{ id: 'tx1', inputs: [], outputs }],
+        };
+
+        expect(() => BlockValidator.validateTransactionIds(block)).toThrow(
+          `Transaction ID does not match its contents: tx1. Expected ${contentId}`
+        );
+      });
+
+      test('should report every violation to the given handler', () => {
+        const block = {
+          id: 'abc123',
+          height: 1,
+          transactions: [
+            { id: 'tx1', inputs: [], outputs },
+            { id: 'tx1', inputs: [], outputs },
+          ],
+        };
+        const codes: (string | undefined)[] = [];
+
+        BlockValidator.validateTransactionIds(block, violation => codes.push(violation.code));
+
+        expect(codes).toEqual(['INVALID_TX_ID', 'DUPLICATE_TRANSACTION', 'INVALID_TX_ID']);
+      });
+    });
   });
 
   describe('validateTransactionSchema', () => {
@@ -70,7 +192,10 @@ describe('BlockValidator', () => {
       };
 
       const result = BlockValidator.validateTransactionSchema(validTx);
-      expect(result).toEqual(validTx);
+      expect(result).toEqual({
+        ...validTx,
+        outputs: [{ address: 'addr1', value: 10000000000n }],
+      });
     });
 
     test('should throw error for missing transaction id', () => {
@@ -106,6 +231,64 @@ describe('BlockValidator', () => {
         'Input index must be a non-negative number'
       );
     });
+
+    test('should throw error for fractional index', () => {
+      const invalidInput = {
+        txId: 'tx1',
+        index: 0.5,
+      };
+
+      expect(() => BlockValidator.validateInputSchema(invalidInput)).toThrow(
+        'Input index must be an integer no greater than 2147483647'
+      );
+    });
+
+    test('should throw error for index beyond the INTEGER range', () => {
+      const invalidInput = {
+        txId: 'tx1',
+        index: 5000000000,
+      };
+
+      expect(() => BlockValidator.validateInputSchema(invalidInput)).toThrow(
+        'Input index must be an integer no greater than 2147483647'
+      );
+    });
+
+    test('should keep a signature and public key', () => {
+      const signedInput = {
+        txId: 'tx1',
+        index: 0,
+        signature: 'ab12',
+        publicKey: 'CD34',
+      };
+
+      const result = BlockValidator.validateInputSchema(signedInput);
+      expect(result).toEqual(signedInput);
+    });
+
+    test('should throw error for non-hex signature', () => {
+      const invalidInput = {
+        txId: 'tx1',
+        index: 0,
+        signature: 'not-hex',
+      };
+
+      expect(() => BlockValidator.validateInputSchema(invalidInput)).toThrow(
+        'Input signature must be a non-empty hex string'
+      );
+    });
+
+    test('should throw error for empty public key', () => {
+      const invalidInput = {
+        txId: 'tx1',
+        index: 0,
+        publicKey: '',
+      };
+
+      expect(() => BlockValidator.validateInputSchema(invalidInput)).toThrow(
+        'Input publicKey must be a non-empty hex string'
+      );
+    });
   });
 
   describe('validateOutputSchema', () => {
@@ -116,7 +299,26 @@ describe('BlockValidator', () => {
       };
 
       const result = BlockValidator.validateOutputSchema(validOutput);
-      expect(result).toEqual(validOutput);
+      expect(result).toEqual({ address: 'addr1', value: 10000000000n });
+    });
+
+    test('should parse decimal string values exactly', () => {
+      const result = BlockValidator.validateOutputSchema({
+        address: 'addr1',
+        value: '92233720368547758.07',
+      });
+      expect(result.value).toBe(9223372036854775807000000n);
+    });
+
+    test('should throw error for values with too many decimal places', () => {
+      const invalidOutput = {
+        address: 'addr1',
+        value: '0.000000001',
+      };
+
+      expect(() => BlockValidator.validateOutputSchema(invalidOutput)).toThrow(
+        'has more than 8 decimal places'
+      );
     });
 
     test('should throw error for negative value', () => {
@@ -142,6 +344,56 @@ describe('BlockValidator', () => {
     });
   });
 
+  describe('validateBatchSchema', () => {
+    test('should validate a list of blocks', () => {
+      const result = BlockValidator.validateBatchSchema([
+        { id: 'abc123', height: 1, transactions: [] },
+        { id: 'def456', height: 2, transactions: [] },
+      ]);
+
+      expect(result).toHaveLength(2);
+      expect(result[1].height).toBe(2);
+    });
+
+    test('should throw error for empty batch', () => {
+      expect(() => BlockValidator.validateBatchSchema([])).toThrow(
+        'Batch must be a non-empty array of blocks'
+      );
+    });
+
+    test('should throw error for invalid block in batch', () => {
+      expect(() =>
+        BlockValidator.validateBatchSchema([{ id: 'abc123', height: 0, transactions: [] }])
+      ).toThrow('Block height must be a positive number');
+    });
+  });
+
+  describe('validateReorgSchema', () => {
+    test('should validate a valid reorg request', () => {
+      const result = BlockValidator.validateReorgSchema({
+        forkHeight: 1,
+        blocks: [{ id: 'abc123', height: 2, transactions: [] }],
+      });
+
+      expect(result).toEqual({
+        forkHeight: 1,
+        blocks: [{ id: 'abc123', height: 2, transactions: [] }],
+      });
+    });
+
+    test('should throw error for invalid fork height', () => {
+      expect(() =>
+        BlockValidator.validateReorgSchema({ forkHeight: -1, blocks: [] })
+      ).toThrow('Fork height must be a non-negative integer');
+    });
+
+    test('should throw error for empty blocks', () => {
+      expect(() =>
+        BlockValidator.validateReorgSchema({ forkHeight: 1, blocks: [] })
+      ).toThrow('Reorg blocks must be a non-empty array');
+    });
+  });
+
   describe('validateRollbackHeight', () => {
     test('should validate valid height', () => {
       expect(BlockValidator.validateRollbackHeight('10')).toBe(10);
@@ -0,0 +1,97 @@
+import { expect, test, describe } from 'bun:test';
+import { QueryValidator } from '../../../src/validators/QueryValidator';
+
+describe('QueryValidator', () => {
+  describe('validateLimit', () => {
+    test('should default when limit is missing', () => {
+      expect(QueryValidator.validateLimit(undefined)).toBe(100);
+      expect(QueryValidator.validateLimit('')).toBe(100);
+    });
+
+    test('should parse valid limit', () => {
+      expect(QueryValidator.validateLimit('25')).toBe(25);
+    });
+
+    test('should throw error for invalid limit', () => {
+      expect(() => QueryValidator.validateLimit('0')).toThrow(
+        'Limit must be a positive integer'
+      );
+      expect(() => QueryValidator.validateLimit('abc')).toThrow(
+        'Limit must be a positive integer'
+      );
+      expect(() => QueryValidator.validateLimit('5000')).toThrow(
+        'Limit cannot exceed 1000'
+      );
+    });
+  });
+
+  describe('validateCursor', () => {
+    test('should return undefined when cursor is missing', () => {
+      expect(QueryValidator.validateCursor(undefined)).toBeUndefined();
+    });
+
+    test('should throw error for malformed cursor', () => {
+      expect(() => QueryValidator.validateCursor('abc')).toThrow('Invalid cursor');
+      expect(() => QueryValidator.validateCursor('-1')).toThrow('Invalid cursor');
+    });
+
+    test('should throw error for cursor beyond the INTEGER range', () => {
+      expect(QueryValidator.validateCursor('2147483647')).toBe(2147483647);
+      expect(() => QueryValidator.validateCursor('99999999999')).toThrow('Invalid cursor');
+    });
+  });
+
+  describe('validateMinValue', () => {
+    test('should parse valid minimum value', () => {
+      expect(QueryValidator.validateMinValue('12.5')).toBe(1250000000n);
+      expect(QueryValidator.validateMinValue(undefined)).toBeUndefined();
+    });
+
+    test('should throw error for negative minimum value', () => {
+      expect(() => QueryValidator.validateMinValue('-1')).toThrow(
+        'minValue must be a non-negative number'
+      );
+    });
+  });
+
+  describe('validateHeight', () => {
+    test('should parse valid height', () => {
+      expect(QueryValidator.validateHeight('0')).toBe(0);
+      expect(QueryValidator.validateHeight('1200')).toBe(1200);
+      expect(QueryValidator.validateHeight(undefined)).toBeUndefined();
+    });
+
+    test('should throw error for invalid height', () => {
+      expect(() => QueryValidator.validateHeight('abc')).toThrow(
+        'Invalid height parameter'
+      );
+      expect(() => QueryValidator.validateHeight('1.5')).toThrow(
+        'Invalid height parameter'
+      );
+    });
+  });
+
+  describe('validateHeightRange', () => {
+    test('should parse valid range', () => {
+      expect(QueryValidator.validateHeightRange('1', '10')).toEqual({ from: 1, to: 10 });
+    });
+
+    test('should throw error for invalid range', () => {
+      expect(() => QueryValidator.validateHeightRange('10', '1')).toThrow(
+        'from and to must be positive integers with from <= to'
+      );
+      expect(() => QueryValidator.validateHeightRange(undefined, '1')).toThrow(
+        'from and to must be positive integers with from <= to'
+      );
+      expect(() => QueryValidator.validateHeightRange('1', '500')).toThrow(
+        'Cannot request more than 100 blocks at once'
+      );
+    });
+
+    test('should throw error for heights beyond the INTEGER range', () => {
+      expect(() => QueryValidator.validateHeightRange('99999999990', '99999999999')).toThrow(
+        'Heights cannot exceed 2147483647'
+      );
+    });
+  });
+});
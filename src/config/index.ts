@@ -7,9 +7,27 @@ export const config = {
   server: {
     port: parseInt(process.env.PORT || '3000'),
     host: process.env.HOST || '0.0.0.0',
+    batchBodyLimit: parseInt(process.env.BATCH_BODY_LIMIT || '52428800'),
   },
   blockchain: {
     maxRollbackBlocks: parseInt(process.env.MAX_ROLLBACK_BLOCKS || '2000'),
+    maxBatchBlocks: parseInt(process.env.MAX_BATCH_BLOCKS || '1000'),
+    allowFees: process.env.ALLOW_FEES === 'true',
+    requirePreviousId: process.env.REQUIRE_PREVIOUS_ID === 'true',
+    blockHashScheme: process.env.BLOCK_HASH_SCHEME || 'sha256-concat',
+    verifyTransactionIds: process.env.VERIFY_TX_IDS === 'true',
+    verifySignatures: process.env.VERIFY_SIGNATURES === 'true',
+    valueDecimals: parseInt(process.env.VALUE_DECIMALS || '8'),
+    issuance: {
+      policy: process.env.ISSUANCE_POLICY || 'genesis-only',
+      blockReward: process.env.BLOCK_REWARD || '0',
+      halvingInterval: parseInt(process.env.HALVING_INTERVAL || '210000'),
+    },
+  },
+  pagination: {
+    defaultLimit: parseInt(process.env.PAGE_DEFAULT_LIMIT || '100'),
+    maxLimit: parseInt(process.env.PAGE_MAX_LIMIT || '1000'),
+    maxBlockRange: parseInt(process.env.MAX_BLOCK_RANGE || '100'),
   },
   logging: {
     level: process.env.LOG_LEVEL || 'info',
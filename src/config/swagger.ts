@@ -30,7 +30,7 @@ This API implements a blockchain indexer following the UTXO (Unspent Transaction
 ### Block Validation Rules
 1. **Sequential Height**: Each block must have height = current_height + 1
 2. **Valid Hash**: Block ID must be SHA256(height + transaction_ids)
-3. **Balanced Value**: Total input value must equal total output value (except genesis)
+3. **Balanced Value**: Each transaction's input value must equal its output value (or cover it, when fees are enabled)
 4. **No Double-Spending**: Cannot spend already-spent outputs
 
 ### Example Flow
@@ -94,6 +94,14 @@ All errors follow a consistent format with error message and optional error code
         name: 'Blockchain',
         description: 'Blockchain operations (blocks, balances, rollback)',
       },
+      {
+        name: 'Addresses',
+        description: 'Address-level queries (unspent outputs, history)',
+      },
+      {
+        name: 'Stats',
+        description: 'Chain-wide statistics (supply, rich list)',
+      },
     ],
     components: {
       schemas: {
@@ -107,10 +115,9 @@ All errors follow a consistent format with error message and optional error code
               example: 'addr1',
             },
             value: {
-              type: 'number',
-              minimum: 0,
-              description: 'The value being transferred',
-              example: 100,
+              oneOf: [{ type: 'number', minimum: 0 }, { type: 'string' }],
+              description: 'The value being transferred, as a number or a decimal string',
+              example: '100',
             },
           },
         },
@@ -129,6 +136,14 @@ All errors follow a consistent format with error message and optional error code
               description: 'The index of the output in the transaction',
               example: 0,
             },
+            signature: {
+              type: 'string',
+              description: 'Hex signature over the transaction contents',
+            },
+            publicKey: {
+              type: 'string',
+              description: 'Hex SPKI DER public key whose SHA256 is the spent output address',
+            },
           },
         },
         Transaction: {
@@ -162,7 +177,7 @@ All errors follow a consistent format with error message and optional error code
           properties: {
             id: {
               type: 'string',
-              description: 'Block hash (SHA256 of height + transaction IDs)',
+              description: 'Block hash (by default SHA256 of height + transaction IDs)',
               example: 'd4735e3a265e16eee03f59718b9b5d03019c07d8b6c51f90da3a666eec13ab35',
             },
             height: {
@@ -171,6 +186,11 @@ All errors follow a consistent format with error message and optional error code
               description: 'Block height (sequential number starting from 1)',
               example: 1,
             },
+            previousId: {
+              type: 'string',
+              nullable: true,
+              description: 'ID of the current tip this block builds on (omit for the genesis block)',
+            },
             transactions: {
               type: 'array',
               description: 'List of transactions in the block',
@@ -0,0 +1,46 @@
+import { createHash } from 'crypto';
+import { merkleRoot } from './merkle';
+
+export type BlockHashFunction = (height: number, transactionIds: string[]) => string;
+
+function sha256(data: string | Buffer): Buffer {
+  return createHash('sha256').update(data).digest();
+}
+
+function concatenate(height: number, transactionIds: string[]): string {
+  return height.toString() + transactionIds.join('');
+}
+
+const schemes = new Map<string, BlockHashFunction>([
+  // sha256(height + concatenated transaction IDs), as in the original spec
+  ['sha256-concat', (height, ids) => sha256(concatenate(height, ids)).toString('hex')],
+  // The same preimage hashed twice
+  ['double-sha256', (height, ids) => sha256(sha256(concatenate(height, ids))).toString('hex')],
+  // sha256(height + Merkle root of the transaction IDs): unlike plain
+  // concatenation, ["ab", "c"] and ["a", "bc"] produce different IDs
+  [
+    'merkle',
+    (height, ids) => sha256(height.toString() + merkleRoot(ids).toString('hex')).toString('hex'),
+  ],
+]);
+
+// Makes a custom scheme selectable by name through BLOCK_HASH_SCHEME
+export function registerBlockHashScheme(name: string, hash: BlockHashFunction): void {
+  if (schemes.has(name)) {
+    throw new Error(`Block hash scheme "${name}" is already registered`);
+  }
+
+  schemes.set(name, hash);
+}
+
+export function getBlockHashFunction(name: string): BlockHashFunction {
+  const hash = schemes.get(name);
+
+  if (!hash) {
+    throw new Error(
+      `Unknown block hash scheme "${name}". Expected one of: ${[...schemes.keys()].join(', ')}`
+    );
+  }
+
+  return hash;
+}
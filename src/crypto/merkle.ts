@@ -0,0 +1,90 @@
+import { createHash } from 'crypto';
+
+// Leaves and interior nodes are hashed with different prefixes so a node can
+// never be passed off as a leaf (or the reverse)
+const LEAF_PREFIX = Buffer.from([0x00]);
+const NODE_PREFIX = Buffer.from([0x01]);
+
+function sha256(...parts: Buffer[]): Buffer {
+  const hash = createHash('sha256');
+  for (const part of parts) {
+    hash.update(part);
+  }
+  return hash.digest();
+}
+
+export function merkleLeaf(id: string): Buffer {
+  return sha256(LEAF_PREFIX, Buffer.from(id, 'utf8'));
+}
+
+export function merkleParent(left: Buffer, right: Buffer): Buffer {
+  return sha256(NODE_PREFIX, left, right);
+}
+
+export interface MerkleProofStep {
+  // Sibling hash, hex encoded
+  hash: string;
+  // Which side of the running hash the sibling goes on
+  position: 'left' | 'right';
+}
+
+/**
+ * Merkle root over the given IDs. A node left without a sibling is paired
+ * with itself, so callers must reject duplicate IDs (blocks already do).
+ * The root of an empty list is 32 zero bytes.
+ */
+export function merkleRoot(ids: string[]): Buffer {
+  if (ids.length === 0) {
+    return Buffer.alloc(32);
+  }
+
+  let level = ids.map(merkleLeaf);
+
+  while (level.length > 1) {
+    const next: Buffer[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(merkleParent(level[i], level[i + 1] ?? level[i]));
+    }
+    level = next;
+  }
+
+  return level[0];
+}
+
+/**
+ * Sibling hashes from the leaf at the given index up to the root. Folding
+ * them over the leaf hash with merkleParent reproduces merkleRoot(ids).
+ */
+export function merkleProof(ids: string[], index: number): MerkleProofStep[] {
+  if (index < 0 || index >= ids.length) {
+    throw new RangeError(`Leaf index ${index} is out of range`);
+  }
+
+  const proof: MerkleProofStep[] = [];
+  let level = ids.map(merkleLeaf);
+  let position = index;
+
+  while (level.length > 1) {
+    const isRight = position % 2 === 1;
+    const sibling = isRight ? level[position - 1] : (level[position + 1] ?? level[position]);
+    proof.push({ hash: sibling.toString('hex'), position: isRight ? 'left' : 'right' });
+
+    const next: Buffer[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(merkleParent(level[i], level[i + 1] ?? level[i]));
+    }
+    level = next;
+    position = Math.floor(position / 2);
+  }
+
+  return proof;
+}
+
+export function verifyMerkleProof(id: string, proof: MerkleProofStep[], root: Buffer): boolean {
+  const computed = proof.reduce((hash, step) => {
+    const sibling = Buffer.from(step.hash, 'hex');
+    return step.position === 'left' ? merkleParent(sibling, hash) : merkleParent(hash, sibling);
+  }, merkleLeaf(id));
+
+  return computed.equals(root);
+}
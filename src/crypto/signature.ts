@@ -0,0 +1,67 @@
+import { createHash, createPublicKey, getCurves, verify, KeyObject } from 'crypto';
+import type { Transaction } from '../types';
+import { encodeTransactionContents } from './transactionId';
+
+// Ed25519 signs the message directly; ECDSA keys (secp256k1, P-256) sign its
+// SHA256 digest and use DER-encoded signatures
+const EC_DIGEST = 'sha256';
+
+// DER AlgorithmIdentifier of secp256k1 keys: id-ecPublicKey with the secp256k1 curve
+const SECP256K1_ALGORITHM = '301006072a8648ce3d020106052b8104000a';
+
+// Bun's crypto library (BoringSSL) has no secp256k1, so keys on that curve can
+// only be verified on runtimes that provide it, such as Node
+export const secp256k1Supported = getCurves().includes('secp256k1');
+
+// Addresses owned by a key are the SHA256 (hex) of its SPKI DER encoding
+export function addressFromPublicKey(publicKey: string): string {
+  return createHash('sha256').update(Buffer.from(publicKey, 'hex')).digest('hex');
+}
+
+// Message each input signs: the transaction's inputs and outputs, without signatures
+export function signingMessage(tx: Transaction): Buffer {
+  return Buffer.from(encodeTransactionContents(tx));
+}
+
+// Names the key's type when this runtime can't verify it, or returns null
+export function unsupportedKeyType(publicKey: string): string | null {
+  // The AlgorithmIdentifier follows the two-byte SEQUENCE header of both the
+  // compressed and uncompressed SPKI encodings
+  const isSecp256k1 = publicKey.toLowerCase().startsWith(SECP256K1_ALGORITHM, 4);
+  return isSecp256k1 && !secp256k1Supported ? 'secp256k1' : null;
+}
+
+function parsePublicKey(publicKey: string): KeyObject | null {
+  try {
+    return createPublicKey({ key: Buffer.from(publicKey, 'hex'), format: 'der', type: 'spki' });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Checks a hex signature over the message against a hex SPKI DER public key.
+ * Returns false for unparseable keys and for key types other than Ed25519
+ * and EC.
+ */
+export function verifySignature(message: Buffer, publicKey: string, signature: string): boolean {
+  const key = parsePublicKey(publicKey);
+  if (!key) {
+    return false;
+  }
+
+  const signatureBytes = Buffer.from(signature, 'hex');
+
+  try {
+    switch (key.asymmetricKeyType) {
+      case 'ed25519':
+        return verify(null, message, key, signatureBytes);
+      case 'ec':
+        return verify(EC_DIGEST, message, key, signatureBytes);
+      default:
+        return false;
+    }
+  } catch {
+    return false;
+  }
+}
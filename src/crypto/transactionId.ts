@@ -0,0 +1,25 @@
+import { createHash } from 'crypto';
+import type { Transaction } from '../types';
+
+/**
+ * JSON encoding of a transaction's inputs and outputs, with values in base
+ * units. Input signatures are left out, so this is also the message they sign.
+ */
+export function encodeTransactionContents(tx: Transaction, height?: number): string {
+  return JSON.stringify({
+    ...(height !== undefined && { height }),
+    inputs: tx.inputs.map(input => [input.txId, input.index]),
+    outputs: tx.outputs.map(output => [output.address, output.value.toString()]),
+  });
+}
+
+/**
+ * Canonical transaction ID: the SHA256 of the encoded inputs and outputs.
+ * Transactions without inputs also commit to the block height, so identical
+ * coinbase payouts in different blocks don't share an ID.
+ */
+export function calculateTransactionId(tx: Transaction, height: number): string {
+  const preimage = encodeTransactionContents(tx, tx.inputs.length === 0 ? height : undefined);
+
+  return createHash('sha256').update(preimage).digest('hex');
+}
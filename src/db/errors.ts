@@ -0,0 +1,54 @@
+import { AppError, ConflictError, ValidationError } from '../errors';
+
+// Postgres SQLSTATE codes we translate into client errors
+const UNIQUE_VIOLATION = '23505';
+const FOREIGN_KEY_VIOLATION = '23503';
+
+const UNIQUE_CONSTRAINTS: Record<string, { description: string; code: string }> = {
+  transactions_pkey: { description: 'Duplicate transaction ID', code: 'DUPLICATE_TRANSACTION' },
+  blocks_pkey: { description: 'Duplicate block ID', code: 'DUPLICATE_BLOCK' },
+  blocks_height_key: { description: 'Duplicate block height', code: 'DUPLICATE_BLOCK' },
+  outputs_tx_id_output_index_key: { description: 'Duplicate output', code: 'DUPLICATE_OUTPUT' },
+  inputs_pkey: { description: 'Duplicate input', code: 'DUPLICATE_INPUT' },
+};
+
+// Pulls the offending key out of a detail like "Key (id)=(tx1) already exists."
+function keyFromDetail(detail: unknown): string | undefined {
+  if (typeof detail !== 'string') {
+    return undefined;
+  }
+
+  return /\)=\((.*)\)/.exec(detail)?.[1];
+}
+
+/**
+ * Translates constraint violations raised by Postgres into typed AppErrors.
+ * Returns undefined for anything else, which remains a server fault.
+ */
+export function mapDatabaseError(error: any): AppError | undefined {
+  if (!error || typeof error.code !== 'string') {
+    return undefined;
+  }
+
+  const key = keyFromDetail(error.detail);
+
+  if (error.code === UNIQUE_VIOLATION) {
+    const constraint = UNIQUE_CONSTRAINTS[error.constraint] ?? {
+      description: 'Duplicate entry',
+      code: 'DUPLICATE_ENTRY',
+    };
+    return new ConflictError(
+      key ? `${constraint.description}: ${key}` : constraint.description,
+      constraint.code
+    );
+  }
+
+  if (error.code === FOREIGN_KEY_VIOLATION) {
+    return new ValidationError(
+      key ? `Reference to unknown record: ${key}` : 'Reference to unknown record',
+      'INVALID_REFERENCE'
+    );
+  }
+
+  return undefined;
+}
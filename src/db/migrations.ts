@@ -11,6 +11,19 @@ export async function runMigrations(pool: Pool): Promise<void> {
     );
   `);
 
+  await pool.query(`
+    ALTER TABLE blocks ADD COLUMN IF NOT EXISTS previous_id TEXT;
+  `);
+
+  // Link blocks stored before previous_id existed to the block below them
+  await pool.query(`
+    UPDATE blocks b
+    SET previous_id = p.id
+    FROM blocks p
+    WHERE p.height = b.height - 1
+      AND b.previous_id IS NULL;
+  `);
+
   await pool.query(`
     CREATE TABLE IF NOT EXISTS transactions (
       id TEXT PRIMARY KEY,
@@ -19,6 +32,14 @@ export async function runMigrations(pool: Pool): Promise<void> {
     );
   `);
 
+  await pool.query(`
+    ALTER TABLE transactions ADD COLUMN IF NOT EXISTS position INTEGER NOT NULL DEFAULT 0;
+  `);
+
+  await pool.query(`
+    ALTER TABLE transactions ADD COLUMN IF NOT EXISTS fee NUMERIC NOT NULL DEFAULT 0;
+  `);
+
   await pool.query(`
     CREATE TABLE IF NOT EXISTS outputs (
       id SERIAL PRIMARY KEY,
@@ -34,11 +55,58 @@ export async function runMigrations(pool: Pool): Promise<void> {
     );
   `);
 
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS inputs (
+      tx_id TEXT NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+      input_index INTEGER NOT NULL,
+      prev_tx_id TEXT NOT NULL,
+      prev_output_index INTEGER NOT NULL,
+      PRIMARY KEY (tx_id, input_index)
+    );
+  `);
+
+  // Backfill inputs recorded before the inputs table existed
+  await pool.query(`
+    INSERT INTO inputs (tx_id, input_index, prev_tx_id, prev_output_index)
+    SELECT spent_by_tx, spent_by_index, tx_id, output_index
+    FROM outputs
+    WHERE spent_by_tx IS NOT NULL
+      AND NOT EXISTS (SELECT 1 FROM inputs)
+    ON CONFLICT DO NOTHING;
+  `);
+
+  await pool.query(`
+    ALTER TABLE inputs
+      ADD COLUMN IF NOT EXISTS signature TEXT,
+      ADD COLUMN IF NOT EXISTS public_key TEXT;
+  `);
+
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS address_balances (
+      address TEXT PRIMARY KEY,
+      balance NUMERIC NOT NULL DEFAULT 0
+    );
+  `);
+
+  // Backfill balances for chains indexed before the balance table existed
+  await pool.query(`
+    INSERT INTO address_balances (address, balance)
+    SELECT address, SUM(value)
+    FROM outputs
+    WHERE spent = FALSE
+      AND NOT EXISTS (SELECT 1 FROM address_balances)
+    GROUP BY address;
+  `);
+
   // Create indexes for better performance
   await pool.query(`
     CREATE INDEX IF NOT EXISTS idx_outputs_address ON outputs(address);
   `);
 
+  await pool.query(`
+    CREATE INDEX IF NOT EXISTS idx_outputs_address_unspent ON outputs(address, id) WHERE spent = FALSE;
+  `);
+
   await pool.query(`
     CREATE INDEX IF NOT EXISTS idx_outputs_spent ON outputs(spent);
   `);
@@ -47,6 +115,10 @@ export async function runMigrations(pool: Pool): Promise<void> {
     CREATE INDEX IF NOT EXISTS idx_outputs_tx_id ON outputs(tx_id);
   `);
 
+  await pool.query(`
+    CREATE INDEX IF NOT EXISTS idx_outputs_spent_by_tx ON outputs(spent_by_tx);
+  `);
+
   await pool.query(`
     CREATE INDEX IF NOT EXISTS idx_blocks_height ON blocks(height);
   `);
@@ -55,5 +127,13 @@ export async function runMigrations(pool: Pool): Promise<void> {
     CREATE INDEX IF NOT EXISTS idx_transactions_block_id ON transactions(block_id);
   `);
 
+  await pool.query(`
+    CREATE INDEX IF NOT EXISTS idx_transactions_block_position ON transactions(block_id, position);
+  `);
+
+  await pool.query(`
+    CREATE INDEX IF NOT EXISTS idx_inputs_prev_output ON inputs(prev_tx_id, prev_output_index);
+  `);
+
   console.log('Database migrations completed');
 }
\ No newline at end of file
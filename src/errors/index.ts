@@ -32,4 +32,12 @@ export class BlockchainError extends AppError {
   constructor(message: string, code?: string) {
     super(message, 400, code);
   }
-}
\ No newline at end of file
+}
+
+// Receives each rule a block breaks. Applying a block stops at the first
+// violation; dry-run validation collects them all.
+export type ViolationHandler = (violation: AppError) => void;
+
+export const throwViolation: ViolationHandler = violation => {
+  throw violation;
+};
@@ -0,0 +1,108 @@
+import type { Pool, PoolClient } from 'pg';
+import type { Transaction } from '../types';
+import { parseAmount } from '../utils/amount';
+
+export interface BalanceRecord {
+  address: string;
+  balance: bigint;
+}
+
+// Per-address balances kept in step with the outputs table, so balance
+// lookups don't have to sum every unspent output of an address.
+export class BalanceRepository {
+  constructor(private pool: Pool) {}
+
+  async getBalance(address: string): Promise<bigint> {
+    const result = await this.pool.query(
+      'SELECT balance FROM address_balances WHERE address = $1',
+      [address]
+    );
+
+    if (result.rows.length === 0) {
+      return 0n;
+    }
+
+    return parseAmount(result.rows[0].balance);
+  }
+
+  async getTotals(): Promise<{ totalUnspent: bigint; addressCount: number }> {
+    const result = await this.pool.query(
+      `SELECT COALESCE(SUM(balance), 0) AS total_unspent, COUNT(*) AS address_count
+       FROM address_balances
+       WHERE balance > 0`
+    );
+
+    return {
+      totalUnspent: parseAmount(result.rows[0].total_unspent),
+      addressCount: parseInt(result.rows[0].address_count),
+    };
+  }
+
+  async getTopBalances(limit: number): Promise<BalanceRecord[]> {
+    const result = await this.pool.query(
+      `SELECT address, balance
+       FROM address_balances
+       WHERE balance > 0
+       ORDER BY balance DESC, address
+       LIMIT $1`,
+      [limit]
+    );
+
+    return result.rows.map(row => ({
+      address: row.address,
+      balance: parseAmount(row.balance),
+    }));
+  }
+
+  // Credits the outputs created by the given transactions and debits the
+  // outputs they spent. Must run after those outputs have been written and spent.
+  async applyTransactions(client: PoolClient, transactions: Transaction[]): Promise<void> {
+    if (transactions.length === 0) {
+      return;
+    }
+
+    await client.query(
+      `INSERT INTO address_balances (address, balance)
+       SELECT address, SUM(delta)
+       FROM (
+         SELECT address, value AS delta
+         FROM outputs
+         WHERE tx_id = ANY($1)
+         UNION ALL
+         SELECT address, -value AS delta
+         FROM outputs
+         WHERE spent_by_tx = ANY($1)
+       ) deltas
+       GROUP BY address
+       ON CONFLICT (address) DO UPDATE
+       SET balance = address_balances.balance + EXCLUDED.balance`,
+      [transactions.map(tx => tx.id)]
+    );
+  }
+
+  // Reverses applyTransactions for every block above the given height.
+  // Must run before those blocks' outputs are unspent and deleted.
+  async revertBlocksAboveHeight(client: PoolClient, height: number): Promise<void> {
+    await client.query(
+      `INSERT INTO address_balances (address, balance)
+       SELECT address, SUM(delta)
+       FROM (
+         SELECT o.address, -o.value AS delta
+         FROM outputs o
+         JOIN transactions t ON t.id = o.tx_id
+         JOIN blocks b ON b.id = t.block_id
+         WHERE b.height > $1
+         UNION ALL
+         SELECT o.address, o.value AS delta
+         FROM outputs o
+         JOIN transactions t ON t.id = o.spent_by_tx
+         JOIN blocks b ON b.id = t.block_id
+         WHERE b.height > $1
+       ) deltas
+       GROUP BY address
+       ON CONFLICT (address) DO UPDATE
+       SET balance = address_balances.balance + EXCLUDED.balance`,
+      [height]
+    );
+  }
+}
@@ -1,19 +1,38 @@
 import { Pool, PoolClient } from 'pg';
 import { Block } from '../types';
 
+export interface BlockRecord {
+  id: string;
+  height: number;
+  previous_id: string | null;
+}
+
+export interface BlockLinkRecord extends BlockRecord {
+  tx_ids: string[];
+}
+
 export class BlockRepository {
   constructor(private pool: Pool) {}
 
-  async getCurrentHeight(): Promise<number> {
-    const result = await this.pool.query(
+  async getCurrentHeight(client?: PoolClient): Promise<number> {
+    const result = await (client ?? this.pool).query(
       'SELECT COALESCE(MAX(height), 0) as max_height FROM blocks'
     );
     return parseInt(result.rows[0].max_height);
   }
 
+  async getTip(client?: PoolClient): Promise<BlockRecord | null> {
+    const result = await (client ?? this.pool).query(
+      'SELECT id, height, previous_id FROM blocks ORDER BY height DESC LIMIT 1'
+    );
+    return result.rows[0] ?? null;
+  }
+
+  // Links the block to the stored block one height below it
   async createBlock(client: PoolClient, block: Block): Promise<void> {
     await client.query(
-      'INSERT INTO blocks (id, height) VALUES ($1, $2)',
+      `INSERT INTO blocks (id, height, previous_id)
+       VALUES ($1, $2, (SELECT id FROM blocks WHERE height = $2 - 1))`,
       [block.id, block.height]
     );
   }
@@ -22,18 +41,54 @@ export class BlockRepository {
     await client.query('DELETE FROM blocks WHERE height > $1', [height]);
   }
 
-  async getBlocksAboveHeight(client: PoolClient, height: number): Promise<{ id: string }[]> {
-    const result = await client.query(
-      'SELECT id FROM blocks WHERE height > $1 ORDER BY height DESC',
+  async getBlockById(blockId: string): Promise<BlockRecord | null> {
+    const result = await this.pool.query(
+      'SELECT id, height, previous_id FROM blocks WHERE id = $1',
+      [blockId]
+    );
+    return result.rows[0] ?? null;
+  }
+
+  async getBlockByHeight(height: number, client?: PoolClient): Promise<BlockRecord | null> {
+    const result = await (client ?? this.pool).query(
+      'SELECT id, height, previous_id FROM blocks WHERE height = $1',
       [height]
     );
-    return result.rows;
+    return result.rows[0] ?? null;
   }
 
-  async blockExists(blockId: string): Promise<boolean> {
+  async getBlocksInRange(from: number, to: number): Promise<BlockRecord[]> {
     const result = await this.pool.query(
-      'SELECT 1 FROM blocks WHERE id = $1',
-      [blockId]
+      'SELECT id, height, previous_id FROM blocks WHERE height BETWEEN $1 AND $2 ORDER BY height',
+      [from, to]
+    );
+    return result.rows;
+  }
+
+  // Blocks above the given height with their transaction IDs in block order
+  async getBlockLinks(
+    client: PoolClient,
+    afterHeight: number,
+    limit: number
+  ): Promise<BlockLinkRecord[]> {
+    const result = await client.query(
+      `SELECT b.id, b.height, b.previous_id,
+              COALESCE(array_agg(t.id ORDER BY t.position) FILTER (WHERE t.id IS NOT NULL), '{}') AS tx_ids
+       FROM blocks b
+       LEFT JOIN transactions t ON t.block_id = b.id
+       WHERE b.height > $1
+       GROUP BY b.id
+       ORDER BY b.height
+       LIMIT $2`,
+      [afterHeight, limit]
+    );
+    return result.rows;
+  }
+
+  async blockExists(blockId: string, height: number, client?: PoolClient): Promise<boolean> {
+    const result = await (client ?? this.pool).query(
+      'SELECT 1 FROM blocks WHERE id = $1 AND height = $2',
+      [blockId, height]
     );
     return result.rows.length > 0;
   }
@@ -0,0 +1,59 @@
+import type { Pool, PoolClient } from 'pg';
+import type { Transaction } from '../types';
+import { parseAmount } from '../utils/amount';
+
+export interface InputRecord {
+  tx_id: string;
+  input_index: number;
+  prev_tx_id: string;
+  prev_output_index: number;
+  address: string;
+  value: bigint;
+  signature: string | null;
+  public_key: string | null;
+}
+
+export class InputRepository {
+  constructor(private pool: Pool) {}
+
+  // Records the inputs of all given transactions in one statement
+  async createInputs(client: PoolClient, transactions: Transaction[]): Promise<void> {
+    const inputs = transactions.flatMap(tx =>
+      tx.inputs.map((input, index) => ({ txId: tx.id, index, input }))
+    );
+
+    if (inputs.length === 0) {
+      return;
+    }
+
+    await client.query(
+      `INSERT INTO inputs (tx_id, input_index, prev_tx_id, prev_output_index, signature, public_key)
+       SELECT * FROM unnest($1::TEXT[], $2::INTEGER[], $3::TEXT[], $4::INTEGER[], $5::TEXT[], $6::TEXT[])`,
+      [
+        inputs.map(i => i.txId),
+        inputs.map(i => i.index),
+        inputs.map(i => i.input.txId),
+        inputs.map(i => i.input.index),
+        inputs.map(i => i.input.signature ?? null),
+        inputs.map(i => i.input.publicKey ?? null),
+      ]
+    );
+  }
+
+  async getInputsByTransactionIds(txIds: string[]): Promise<InputRecord[]> {
+    const result = await this.pool.query(
+      `SELECT i.tx_id, i.input_index, i.prev_tx_id, i.prev_output_index, i.signature, i.public_key,
+              o.address, o.value
+       FROM inputs i
+       JOIN outputs o ON o.tx_id = i.prev_tx_id AND o.output_index = i.prev_output_index
+       WHERE i.tx_id = ANY($1)
+       ORDER BY i.tx_id, i.input_index`,
+      [txIds]
+    );
+
+    return result.rows.map(row => ({
+      ...row,
+      value: parseAmount(row.value),
+    }));
+  }
+}
@@ -1,78 +1,227 @@
 import { Pool, PoolClient } from 'pg';
-import { Output } from '../types';
+import type { AddressHistoryEntry, Transaction, Utxo } from '../types';
+import { formatAmount, parseAmount } from '../utils/amount';
+import { ConflictError } from '../errors';
 
 export interface OutputRecord {
   tx_id: string;
   output_index: number;
   address: string;
-  value: number;
+  value: bigint;
   spent: boolean;
 }
 
+export interface OutputDetailRecord extends OutputRecord {
+  spent_by_tx: string | null;
+  spent_by_index: number | null;
+}
+
 export class OutputRepository {
   constructor(private pool: Pool) {}
 
-  async createOutput(
-    client: PoolClient,
-    txId: string,
-    index: number,
-    output: Output
-  ): Promise<void> {
+  // Inserts the outputs of all given transactions in one statement
+  async createOutputs(client: PoolClient, transactions: Transaction[]): Promise<void> {
+    const outputs = transactions.flatMap(tx =>
+      tx.outputs.map((output, index) => ({ txId: tx.id, index, output }))
+    );
+
+    if (outputs.length === 0) {
+      return;
+    }
+
     await client.query(
-      'INSERT INTO outputs (tx_id, output_index, address, value, spent) VALUES ($1, $2, $3, $4, FALSE)',
-      [txId, index, output.address, output.value]
+      `INSERT INTO outputs (tx_id, output_index, address, value, spent)
+       SELECT o.tx_id, o.output_index, o.address, o.value, FALSE
+       FROM unnest($1::TEXT[], $2::INTEGER[], $3::TEXT[], $4::NUMERIC[])
+         AS o(tx_id, output_index, address, value)`,
+      [
+        outputs.map(o => o.txId),
+        outputs.map(o => o.index),
+        outputs.map(o => o.output.address),
+        outputs.map(o => formatAmount(o.output.value)),
+      ]
     );
   }
 
-  async getOutput(txId: string, index: number): Promise<OutputRecord | null> {
-    const result = await this.pool.query(
-      'SELECT tx_id, output_index, address, value, spent FROM outputs WHERE tx_id = $1 AND output_index = $2',
-      [txId, index]
-    );
+  // Looks up every output referenced by the inputs of the given transactions in one query
+  async getOutputsSpentBy(client: PoolClient, transactions: Transaction[]): Promise<OutputRecord[]> {
+    const inputs = transactions.flatMap(tx => tx.inputs);
 
-    if (result.rows.length === 0) {
-      return null;
+    if (inputs.length === 0) {
+      return [];
     }
 
-    return {
-      ...result.rows[0],
-      value: parseFloat(result.rows[0].value),
-    };
+    const result = await client.query(
+      `SELECT DISTINCT o.tx_id, o.output_index, o.address, o.value, o.spent
+       FROM outputs o
+       JOIN unnest($1::TEXT[], $2::INTEGER[]) AS s(tx_id, output_index)
+         ON o.tx_id = s.tx_id AND o.output_index = s.output_index`,
+      [inputs.map(input => input.txId), inputs.map(input => input.index)]
+    );
+
+    return result.rows.map(row => ({
+      ...row,
+      value: parseAmount(row.value),
+    }));
   }
 
-  async markOutputAsSpent(
-    client: PoolClient,
-    txId: string,
-    index: number,
-    spentByTx: string,
-    spentByIndex: number
-  ): Promise<void> {
+  // Marks every output referenced by the inputs of the given transactions as spent
+  async markOutputsAsSpent(client: PoolClient, transactions: Transaction[]): Promise<void> {
+    const inputs = transactions.flatMap(tx =>
+      tx.inputs.map((input, index) => ({ spentByTx: tx.id, spentByIndex: index, input }))
+    );
+
+    if (inputs.length === 0) {
+      return;
+    }
+
     const result = await client.query(
-      'UPDATE outputs SET spent = TRUE, spent_by_tx = $1, spent_by_index = $2 WHERE tx_id = $3 AND output_index = $4 AND spent = FALSE',
-      [spentByTx, spentByIndex, txId, index]
+      `UPDATE outputs o
+       SET spent = TRUE, spent_by_tx = s.spent_by_tx, spent_by_index = s.spent_by_index
+       FROM unnest($1::TEXT[], $2::INTEGER[], $3::TEXT[], $4::INTEGER[])
+         AS s(tx_id, output_index, spent_by_tx, spent_by_index)
+       WHERE o.tx_id = s.tx_id AND o.output_index = s.output_index AND o.spent = FALSE`,
+      [
+        inputs.map(i => i.input.txId),
+        inputs.map(i => i.input.index),
+        inputs.map(i => i.spentByTx),
+        inputs.map(i => i.spentByIndex),
+      ]
     );
 
-    if (result.rowCount === 0) {
-      throw new Error(`Output ${txId}:${index} not found or already spent`);
+    if (result.rowCount !== inputs.length) {
+      throw new ConflictError(
+        `Expected to spend ${inputs.length} outputs, spent ${result.rowCount}: some were not found or already spent`,
+        'DOUBLE_SPEND'
+      );
     }
   }
 
-  async unspendOutputsByTransaction(
-    client: PoolClient,
-    txId: string
-  ): Promise<void> {
+  // Restores outputs spent by transactions in blocks above the given height
+  async unspendOutputsAboveHeight(client: PoolClient, height: number): Promise<void> {
     await client.query(
-      'UPDATE outputs SET spent = FALSE, spent_by_tx = NULL, spent_by_index = NULL WHERE spent_by_tx = $1',
-      [txId]
+      `UPDATE outputs o
+       SET spent = FALSE, spent_by_tx = NULL, spent_by_index = NULL
+       FROM transactions t
+       JOIN blocks b ON b.id = t.block_id
+       WHERE o.spent_by_tx = t.id AND b.height > $1`,
+      [height]
+    );
+  }
+
+  async getUnspentCount(): Promise<number> {
+    const result = await this.pool.query(
+      'SELECT COUNT(*) AS count FROM outputs WHERE spent = FALSE'
+    );
+    return parseInt(result.rows[0].count);
+  }
+
+  async getBalanceForAddressAtHeight(address: string, height: number): Promise<bigint> {
+    const result = await this.pool.query(
+      `SELECT COALESCE(SUM(o.value), 0) as balance
+       FROM outputs o
+       JOIN transactions t ON t.id = o.tx_id
+       JOIN blocks b ON b.id = t.block_id
+       LEFT JOIN transactions st ON st.id = o.spent_by_tx
+       LEFT JOIN blocks sb ON sb.id = st.block_id
+       WHERE o.address = $1
+         AND b.height <= $2
+         AND (sb.height IS NULL OR sb.height > $2)`,
+      [address, height]
+    );
+    return parseAmount(result.rows[0].balance);
+  }
+
+  async getUnspentOutputsForAddress(
+    address: string,
+    options: { limit: number; afterId?: number; minValue?: bigint }
+  ): Promise<{ id: number; utxo: Utxo }[]> {
+    const result = await this.pool.query(
+      `SELECT o.id, o.tx_id, o.output_index, o.value, b.height
+       FROM outputs o
+       JOIN transactions t ON t.id = o.tx_id
+       JOIN blocks b ON b.id = t.block_id
+       WHERE o.address = $1
+         AND o.spent = FALSE
+         AND ($2::INTEGER IS NULL OR o.id > $2)
+         AND ($3::NUMERIC IS NULL OR o.value >= $3)
+       ORDER BY o.id
+       LIMIT $4`,
+      [
+        address,
+        options.afterId ?? null,
+        options.minValue !== undefined ? formatAmount(options.minValue) : null,
+        options.limit,
+      ]
     );
+
+    return result.rows.map(row => ({
+      id: row.id,
+      utxo: {
+        txId: row.tx_id,
+        index: row.output_index,
+        value: parseAmount(row.value),
+        height: row.height,
+      },
+    }));
   }
 
-  async getBalanceForAddress(address: string): Promise<number> {
+  async getHistoryForAddress(address: string): Promise<AddressHistoryEntry[]> {
     const result = await this.pool.query(
-      'SELECT COALESCE(SUM(value), 0) as balance FROM outputs WHERE address = $1 AND spent = FALSE',
+      `WITH received AS (
+         SELECT tx_id, SUM(value) AS amount
+         FROM outputs
+         WHERE address = $1
+         GROUP BY tx_id
+       ),
+       sent AS (
+         SELECT spent_by_tx AS tx_id, SUM(value) AS amount
+         FROM outputs
+         WHERE address = $1 AND spent_by_tx IS NOT NULL
+         GROUP BY spent_by_tx
+       )
+       SELECT
+         t.id AS tx_id,
+         b.height,
+         COALESCE(r.amount, 0) AS received,
+         COALESCE(s.amount, 0) AS sent,
+         SUM(COALESCE(r.amount, 0) - COALESCE(s.amount, 0))
+           OVER (ORDER BY b.height, t.position) AS balance
+       FROM received r
+       FULL OUTER JOIN sent s ON s.tx_id = r.tx_id
+       JOIN transactions t ON t.id = COALESCE(r.tx_id, s.tx_id)
+       JOIN blocks b ON b.id = t.block_id
+       ORDER BY b.height, t.position`,
       [address]
     );
-    return parseFloat(result.rows[0].balance);
+
+    return result.rows.map(row => {
+      const received = parseAmount(row.received);
+      const sent = parseAmount(row.sent);
+      return {
+        txId: row.tx_id,
+        height: row.height,
+        received,
+        sent,
+        delta: received - sent,
+        balance: parseAmount(row.balance),
+      };
+    });
+  }
+
+  async getOutputsByTransactionIds(txIds: string[]): Promise<OutputDetailRecord[]> {
+    const result = await this.pool.query(
+      `SELECT tx_id, output_index, address, value, spent, spent_by_tx, spent_by_index
+       FROM outputs
+       WHERE tx_id = ANY($1)
+       ORDER BY tx_id, output_index`,
+      [txIds]
+    );
+
+    return result.rows.map(row => ({
+      ...row,
+      value: parseAmount(row.value),
+    }));
   }
 
   async isOutputSpent(txId: string, index: number): Promise<boolean> {
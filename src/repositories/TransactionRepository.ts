@@ -1,36 +1,118 @@
 import { Pool, PoolClient } from 'pg';
 import { Transaction } from '../types';
+import { formatAmount, parseAmount } from '../utils/amount';
+
+export interface TransactionRecord {
+  id: string;
+  block_id: string;
+  height: number;
+  fee: bigint;
+}
 
 export class TransactionRepository {
   constructor(private pool: Pool) {}
 
-  async createTransaction(
+  // Inserts all transactions of a block in one statement; fees are given by position
+  async createTransactions(
     client: PoolClient,
-    transaction: Transaction,
-    blockId: string
+    blockId: string,
+    transactions: Transaction[],
+    fees: bigint[]
   ): Promise<void> {
+    if (transactions.length === 0) {
+      return;
+    }
+
     await client.query(
-      'INSERT INTO transactions (id, block_id) VALUES ($1, $2)',
-      [transaction.id, blockId]
+      `INSERT INTO transactions (id, block_id, position, fee)
+       SELECT t.id, $1, t.position, t.fee
+       FROM unnest($2::TEXT[], $3::INTEGER[], $4::NUMERIC[]) AS t(id, position, fee)`,
+      [
+        blockId,
+        transactions.map(tx => tx.id),
+        transactions.map((_, position) => position),
+        fees.map(formatAmount),
+      ]
     );
   }
 
-  async getTransactionsByBlockId(
-    client: PoolClient,
-    blockId: string
-  ): Promise<{ id: string }[]> {
-    const result = await client.query(
-      'SELECT id FROM transactions WHERE block_id = $1',
+  async getTransactionById(
+    txId: string
+  ): Promise<TransactionRecord | null> {
+    const result = await this.pool.query(
+      `SELECT t.id, t.block_id, b.height, t.fee
+       FROM transactions t
+       JOIN blocks b ON b.id = t.block_id
+       WHERE t.id = $1`,
+      [txId]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return {
+      ...result.rows[0],
+      fee: parseAmount(result.rows[0].fee),
+    };
+  }
+
+  async getTransactionsByBlockIds(
+    blockIds: string[]
+  ): Promise<TransactionRecord[]> {
+    const result = await this.pool.query(
+      `SELECT t.id, t.block_id, b.height, t.fee
+       FROM transactions t
+       JOIN blocks b ON b.id = t.block_id
+       WHERE t.block_id = ANY($1)
+       ORDER BY b.height, t.position`,
+      [blockIds]
+    );
+    return result.rows.map(row => ({
+      ...row,
+      fee: parseAmount(row.fee),
+    }));
+  }
+
+  // Transaction IDs of a block in the order they were submitted
+  async getTransactionIdsByBlockId(blockId: string): Promise<string[]> {
+    const result = await this.pool.query(
+      'SELECT id FROM transactions WHERE block_id = $1 ORDER BY position',
       [blockId]
     );
-    return result.rows;
+    return result.rows.map(row => row.id);
   }
 
-  async transactionExists(txId: string): Promise<boolean> {
+  // Returns the subset of the given IDs that are already stored
+  async getExistingTransactionIds(txIds: string[], client?: PoolClient): Promise<string[]> {
+    if (txIds.length === 0) {
+      return [];
+    }
+
+    const result = await (client ?? this.pool).query(
+      'SELECT id FROM transactions WHERE id = ANY($1)',
+      [txIds]
+    );
+    return result.rows.map(row => row.id);
+  }
+
+  // Value created by coinbase transactions beyond the fees they reclaim, summed
+  // per block so unclaimed fees (which are burned) don't offset new issuance
+  async getTotalMinted(): Promise<bigint> {
     const result = await this.pool.query(
-      'SELECT 1 FROM transactions WHERE id = $1',
-      [txId]
+      `SELECT COALESCE(SUM(GREATEST(minted, 0)), 0) AS total_minted
+       FROM (
+         SELECT t.block_id, SUM(COALESCE(c.value, 0)) - SUM(t.fee) AS minted
+         FROM transactions t
+         LEFT JOIN (
+           SELECT o.tx_id, SUM(o.value) AS value
+           FROM outputs o
+           WHERE NOT EXISTS (SELECT 1 FROM inputs i WHERE i.tx_id = o.tx_id)
+           GROUP BY o.tx_id
+         ) c ON c.tx_id = t.id
+         GROUP BY t.block_id
+       ) blocks`
     );
-    return result.rows.length > 0;
+    return parseAmount(result.rows[0].total_minted);
   }
-}
\ No newline at end of file
+}
@@ -1,14 +1,32 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { BlockchainService } from '../services/BlockchainService';
 import { BlockValidator } from '../validators/BlockValidator';
-import { AppError } from '../errors';
+import { QueryValidator } from '../validators/QueryValidator';
+import { AppError, ValidationError } from '../errors';
 import { Block } from '../types';
+import { serializeAmounts } from '../utils/amount';
+import { config } from '../config';
+import { mapDatabaseError } from '../db/errors';
 import {
   blockSchema,
+  blockBatchSchema,
+  batchSuccessSchema,
+  reorgSchema,
   errorSchema,
   successSchema,
+  blockSubmissionSchema,
+  blockValidationSchema,
   balanceSchema,
   healthSchema,
+  utxoListSchema,
+  historySchema,
+  storedBlockSchema,
+  storedTransactionSchema,
+  blockListSchema,
+  supplySchema,
+  richListSchema,
+  chainVerificationSchema,
+  transactionProofSchema,
 } from '../schemas';
 
 export async function blockchainRoutes(
@@ -17,6 +35,11 @@ export async function blockchainRoutes(
 ) {
   const { blockchainService } = options;
 
+  // Amounts are bigint internally; send them as exact decimal strings
+  fastify.addHook('preSerialization', async (request, reply, payload) =>
+    serializeAmounts(payload)
+  );
+
   // Health check endpoint
   fastify.get(
     '/',
@@ -46,16 +69,27 @@ export async function blockchainRoutes(
       schema: {
         description: `Submit a new block to the blockchain. The block must:
         - Have a height exactly one unit higher than the current height
-        - Have a valid ID (SHA256 hash of height + transaction IDs)
-        - Have balanced inputs and outputs (except for genesis block)
-        - Not double-spend any outputs`,
+        - Have a valid ID (by default the SHA256 hash of height + transaction IDs, see BLOCK_HASH_SCHEME)
+        - Have balanced inputs and outputs in every transaction (inputs may exceed outputs when fees are enabled)
+        - Only mint value after genesis through coinbase transactions claiming the block reward plus fees
+        - Not double-spend any outputs
+        - Not reuse a transaction ID, within the block or from the chain
+        Re-submitting a block that is already on chain (same ID and height) succeeds
+        with alreadyApplied set to true, so submissions can be safely retried.`,
         tags: ['Blockchain'],
         summary: 'Submit a new block',
         body: blockSchema,
         response: {
           200: {
             description: 'Block successfully processed',
-            ...successSchema,
+            ...blockSubmissionSchema,
+            examples: [
+              {
+                success: true,
+                height: 2,
+                alreadyApplied: false,
+              },
+            ],
           },
           400: {
             description: 'Invalid block data',
@@ -70,13 +104,35 @@ export async function blockchainRoutes(
                 code: 'INVALID_BLOCK_ID',
               },
               {
-                error: 'Input/Output value mismatch. Inputs: 100, Outputs: 150',
+                error: 'Input/Output value mismatch in transaction tx2. Inputs: 100, Outputs: 150',
                 code: 'VALUE_MISMATCH',
               },
+              {
+                error: 'Coinbase outputs exceed block reward plus fees. Claimable: 0, Claimed: 50',
+                code: 'INVALID_COINBASE',
+              },
               {
                 error: 'Output already spent: tx1:0',
                 code: 'DOUBLE_SPEND',
               },
+              {
+                error: 'Duplicate transaction ID in block: tx1',
+                code: 'DUPLICATE_TRANSACTION',
+              },
+            ],
+          },
+          409: {
+            description: 'Block conflicts with the current chain',
+            ...errorSchema,
+            examples: [
+              {
+                error: 'Output already spent: tx1:0',
+                code: 'DOUBLE_SPEND',
+              },
+              {
+                error: 'Transaction already exists: tx1',
+                code: 'DUPLICATE_TRANSACTION',
+              },
             ],
           },
         },
@@ -85,10 +141,11 @@ export async function blockchainRoutes(
     async (request, reply) => {
       try {
         const block = BlockValidator.validateBlockSchema(request.body);
-        await blockchainService.processBlock(block);
+        const alreadyApplied = await blockchainService.processBlock(block);
         return reply.status(200).send({
           success: true,
           height: block.height,
+          alreadyApplied,
         });
       } catch (error) {
         handleError(error, reply);
@@ -96,12 +153,357 @@ export async function blockchainRoutes(
     }
   );
 
+  // Get block range endpoint
+  fastify.get<{ Querystring: { from: string; to: string } }>(
+    '/blocks',
+    {
+      schema: {
+        description: `Get stored blocks with heights between from and to (inclusive),
+        including their transactions, resolved inputs and outputs.`,
+        tags: ['Blockchain'],
+        summary: 'Get a range of blocks',
+        querystring: {
+          type: 'object',
+          properties: {
+            from: {
+              type: 'string',
+              description: 'First block height to return',
+            },
+            to: {
+              type: 'string',
+              description: 'Last block height to return (at most 100 blocks per request)',
+            },
+          },
+          required: ['from', 'to'],
+        },
+        response: {
+          200: {
+            description: 'Blocks retrieved successfully',
+            ...blockListSchema,
+          },
+          400: {
+            description: 'Invalid range',
+            ...errorSchema,
+            examples: [
+              {
+                error: 'from and to must be positive integers with from <= to',
+                code: 'INVALID_RANGE',
+              },
+            ],
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { from, to } = QueryValidator.validateHeightRange(
+          request.query.from,
+          request.query.to
+        );
+        const blocks = await blockchainService.getBlocks(from, to);
+        return reply.status(200).send({ blocks });
+      } catch (error) {
+        handleError(error, reply);
+      }
+    }
+  );
+
+  // Get block endpoint
+  fastify.get<{ Params: { heightOrId: string } }>(
+    '/blocks/:heightOrId',
+    {
+      schema: {
+        description: `Get a stored block by height or by block ID,
+        including its transactions, resolved inputs and outputs.`,
+        tags: ['Blockchain'],
+        summary: 'Get a block',
+        params: {
+          type: 'object',
+          properties: {
+            heightOrId: {
+              type: 'string',
+              description: 'Block height (digits only) or block ID',
+            },
+          },
+          required: ['heightOrId'],
+        },
+        response: {
+          200: {
+            description: 'Block retrieved successfully',
+            ...storedBlockSchema,
+          },
+          404: {
+            description: 'Block not found',
+            ...errorSchema,
+            examples: [
+              {
+                error: 'Block not found: 42',
+                code: 'BLOCK_NOT_FOUND',
+              },
+            ],
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const block = await blockchainService.getBlock(request.params.heightOrId);
+        return reply.status(200).send(block);
+      } catch (error) {
+        handleError(error, reply);
+      }
+    }
+  );
+
+  // Get transaction endpoint
+  fastify.get<{ Params: { txId: string } }>(
+    '/transactions/:txId',
+    {
+      schema: {
+        description: 'Get a stored transaction with its resolved inputs and outputs',
+        tags: ['Blockchain'],
+        summary: 'Get a transaction',
+        params: {
+          type: 'object',
+          properties: {
+            txId: {
+              type: 'string',
+              description: 'The transaction ID',
+            },
+          },
+          required: ['txId'],
+        },
+        response: {
+          200: {
+            description: 'Transaction retrieved successfully',
+            ...storedTransactionSchema,
+          },
+          404: {
+            description: 'Transaction not found',
+            ...errorSchema,
+            examples: [
+              {
+                error: 'Transaction not found: tx42',
+                code: 'TRANSACTION_NOT_FOUND',
+              },
+            ],
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const transaction = await blockchainService.getTransaction(request.params.txId);
+        return reply.status(200).send(transaction);
+      } catch (error) {
+        handleError(error, reply);
+      }
+    }
+  );
+
+  // Transaction inclusion proof endpoint
+  fastify.get<{ Params: { txId: string } }>(
+    '/transactions/:txId/proof',
+    {
+      schema: {
+        description: `Get a Merkle inclusion proof for a transaction: the sibling hashes from the
+        transaction's leaf up to the Merkle root over its block's transaction IDs.
+        Leaves are sha256(0x00 || txId) and nodes sha256(0x01 || left || right).
+        With BLOCK_HASH_SCHEME=merkle the block ID commits to this root, so the proof can be
+        checked against the block ID alone.`,
+        tags: ['Blockchain'],
+        summary: 'Get a transaction inclusion proof',
+        params: {
+          type: 'object',
+          properties: {
+            txId: {
+              type: 'string',
+              description: 'The transaction ID',
+            },
+          },
+          required: ['txId'],
+        },
+        response: {
+          200: {
+            description: 'Inclusion proof retrieved successfully',
+            ...transactionProofSchema,
+          },
+          404: {
+            description: 'Transaction not found',
+            ...errorSchema,
+            examples: [
+              {
+                error: 'Transaction not found: tx42',
+                code: 'TRANSACTION_NOT_FOUND',
+              },
+            ],
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const proof = await blockchainService.getTransactionProof(request.params.txId);
+        return reply.status(200).send(proof);
+      } catch (error) {
+        handleError(error, reply);
+      }
+    }
+  );
+
+  // Newline-delimited JSON bodies (one block per line) for batch ingestion
+  fastify.addContentTypeParser(
+    'application/x-ndjson',
+    { parseAs: 'string', bodyLimit: config.server.batchBodyLimit },
+    (request, body, done) => {
+      const blocks: unknown[] = [];
+      const lines = (body as string).split('\n');
+
+      for (const [index, line] of lines.entries()) {
+        if (line.trim() === '') {
+          continue;
+        }
+        try {
+          blocks.push(JSON.parse(line));
+        } catch (error) {
+          const reason = error instanceof Error ? `: ${error.message}` : '';
+          done(
+            new ValidationError(
+              `Invalid NDJSON body: line ${index + 1} is not valid JSON${reason}`,
+              'INVALID_NDJSON'
+            ),
+            undefined
+          );
+          return;
+        }
+      }
+
+      done(null, blocks);
+    }
+  );
+
+  // Batch block ingestion endpoint
+  fastify.post<{ Body: Block[] }>(
+    '/blocks/batch',
+    {
+      bodyLimit: config.server.batchBodyLimit,
+      // Body parser errors such as INVALID_NDJSON never reach the handler below
+      errorHandler: (error, request, reply) => {
+        if (error instanceof AppError) {
+          return handleError(error, reply);
+        }
+        return reply.send(error);
+      },
+      schema: {
+        description: `Submit consecutive blocks in one request, as a JSON array or as NDJSON
+        (Content-Type: application/x-ndjson, one block per line).
+        Blocks are validated and applied in order within a single database transaction:
+        if any block is invalid, none of the batch is applied.`,
+        tags: ['Blockchain'],
+        summary: 'Submit a batch of blocks',
+        body: blockBatchSchema,
+        response: {
+          200: {
+            description: 'Batch successfully processed',
+            ...batchSuccessSchema,
+            examples: [
+              {
+                success: true,
+                height: 1000,
+                count: 1000,
+              },
+            ],
+          },
+          400: {
+            description: 'Invalid block in batch',
+            ...errorSchema,
+            examples: [
+              {
+                error: 'Block at height 12: Invalid height. Expected 11, got 12',
+                code: 'INVALID_HEIGHT',
+              },
+            ],
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const blocks = BlockValidator.validateBatchSchema(request.body);
+        const { height, applied } = await blockchainService.processBlocks(blocks);
+        return reply.status(200).send({
+          success: true,
+          height,
+          count: applied,
+        });
+      } catch (error) {
+        handleError(error, reply);
+      }
+    }
+  );
+
+  // Dry-run block validation endpoint
+  fastify.post<{ Body: Block }>(
+    '/blocks/validate',
+    {
+      schema: {
+        description: `Check a candidate block against the current tip without applying it.
+        Runs the same checks as POST /blocks (height, hash, transaction IDs, balances,
+        double-spends, coinbase limits) but reports every violation instead of stopping at the first.
+        Malformed bodies are still rejected with 400.`,
+        tags: ['Blockchain'],
+        summary: 'Validate a block without applying it',
+        body: blockSchema,
+        response: {
+          200: {
+            description: 'Validation report',
+            ...blockValidationSchema,
+            examples: [
+              {
+                valid: false,
+                violations: [
+                  {
+                    error: 'Invalid height. Expected 2, got 3',
+                    code: 'INVALID_HEIGHT',
+                  },
+                  {
+                    error: 'Output already spent: tx1:0',
+                    code: 'DOUBLE_SPEND',
+                  },
+                ],
+              },
+            ],
+          },
+          400: {
+            description: 'Malformed block',
+            ...errorSchema,
+            examples: [
+              {
+                error: 'Block ID must be a non-empty string',
+              },
+            ],
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const block = BlockValidator.validateBlockSchema(request.body);
+        const result = await blockchainService.validateCandidateBlock(block);
+        return reply.status(200).send(result);
+      } catch (error) {
+        handleError(error, reply);
+      }
+    }
+  );
+
   // Get balance endpoint
-  fastify.get<{ Params: { address: string } }>(
+  fastify.get<{ Params: { address: string }; Querystring: { atHeight?: string } }>(
     '/balance/:address',
     {
       schema: {
-        description: 'Get the current unspent balance for a specific address',
+        description: `Get the current unspent balance for a specific address.
+        Pass atHeight to get the balance as it was right after that block was applied.`,
         tags: ['Blockchain'],
         summary: 'Get address balance',
         params: {
@@ -114,6 +516,15 @@ export async function blockchainRoutes(
           },
           required: ['address'],
         },
+        querystring: {
+          type: 'object',
+          properties: {
+            atHeight: {
+              type: 'string',
+              description: 'Block height to compute the historical balance at',
+            },
+          },
+        },
         response: {
           200: {
             description: 'Balance retrieved successfully',
@@ -121,17 +532,32 @@ export async function blockchainRoutes(
             examples: [
               {
                 address: 'addr1',
-                balance: 100,
+                balance: '100',
               },
               {
                 address: 'unknown_addr',
-                balance: 0,
+                balance: '0',
+              },
+              {
+                address: 'addr1',
+                balance: '100.5',
+                height: 1,
               },
             ],
           },
           400: {
             description: 'Invalid request',
             ...errorSchema,
+            examples: [
+              {
+                error: 'Cannot query balance at future height. Current: 3, Requested: 5',
+                code: 'FUTURE_HEIGHT',
+              },
+              {
+                error: 'Invalid height parameter',
+                code: 'INVALID_HEIGHT',
+              },
+            ],
           },
         },
       },
@@ -144,10 +570,12 @@ export async function blockchainRoutes(
           throw new AppError('Address parameter is required', 400);
         }
 
-        const balance = await blockchainService.getBalance(address);
+        const atHeight = QueryValidator.validateHeight(request.query.atHeight);
+        const balance = await blockchainService.getBalance(address, atHeight);
         return reply.status(200).send({
           address,
           balance,
+          ...(atHeight !== undefined && { height: atHeight }),
         });
       } catch (error) {
         handleError(error, reply);
@@ -155,6 +583,336 @@ export async function blockchainRoutes(
     }
   );
 
+  // Chain reorganization endpoint
+  fastify.post<{ Body: { forkHeight: number; blocks: Block[] } }>(
+    '/reorg',
+    {
+      schema: {
+        description: `Replace the current tip with a competing branch.
+        Rolls back to forkHeight and applies the given blocks in a single database transaction.
+        If any block fails validation, nothing is changed and the original tip is kept.
+        The rollback part is subject to the same 2000 block limit as /rollback.`,
+        tags: ['Blockchain'],
+        summary: 'Reorganize the chain onto a new branch',
+        body: reorgSchema,
+        response: {
+          200: {
+            description: 'Reorganization successful',
+            ...successSchema,
+            examples: [
+              {
+                success: true,
+                height: 12,
+              },
+            ],
+          },
+          400: {
+            description: 'Invalid fork point or replacement block',
+            ...errorSchema,
+            examples: [
+              {
+                error: 'Cannot rollback to future height. Current: 10, Target: 15',
+                code: 'FUTURE_HEIGHT',
+              },
+              {
+                error: 'Invalid height. Expected 11, got 12',
+                code: 'INVALID_HEIGHT',
+              },
+            ],
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { forkHeight, blocks } = BlockValidator.validateReorgSchema(request.body);
+        const height = await blockchainService.reorg(forkHeight, blocks);
+        return reply.status(200).send({
+          success: true,
+          height,
+        });
+      } catch (error) {
+        handleError(error, reply);
+      }
+    }
+  );
+
+  // Unspent outputs endpoint
+  fastify.get<{
+    Params: { address: string };
+    Querystring: { limit?: string; cursor?: string; minValue?: string };
+  }>(
+    '/addresses/:address/utxos',
+    {
+      schema: {
+        description: `List the unspent outputs held by an address, oldest first.
+        Results are paginated: pass the returned nextCursor as cursor to fetch the next page.`,
+        tags: ['Addresses'],
+        summary: 'List address UTXOs',
+        params: {
+          type: 'object',
+          properties: {
+            address: {
+              type: 'string',
+              description: 'The address to query',
+            },
+          },
+          required: ['address'],
+        },
+        querystring: {
+          type: 'object',
+          properties: {
+            limit: {
+              type: 'string',
+              description: 'Maximum number of outputs to return (default 100, max 1000)',
+            },
+            cursor: {
+              type: 'string',
+              description: 'Cursor returned by the previous page',
+            },
+            minValue: {
+              type: 'string',
+              description: 'Only return outputs with at least this value',
+            },
+          },
+        },
+        response: {
+          200: {
+            description: 'Unspent outputs retrieved successfully',
+            ...utxoListSchema,
+            examples: [
+              {
+                address: 'addr1',
+                utxos: [{ txId: 'tx1', index: 0, value: '100', height: 1 }],
+                nextCursor: null,
+              },
+            ],
+          },
+          400: {
+            description: 'Invalid request',
+            ...errorSchema,
+            examples: [
+              {
+                error: 'Limit must be a positive integer',
+                code: 'INVALID_LIMIT',
+              },
+              {
+                error: 'Invalid cursor',
+                code: 'INVALID_CURSOR',
+              },
+            ],
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { address } = request.params;
+        const limit = QueryValidator.validateLimit(request.query.limit);
+        const cursor = QueryValidator.validateCursor(request.query.cursor);
+        const minValue = QueryValidator.validateMinValue(request.query.minValue);
+
+        const page = await blockchainService.getUtxos(address, {
+          limit,
+          cursor,
+          minValue,
+        });
+
+        return reply.status(200).send({
+          address,
+          ...page,
+        });
+      } catch (error) {
+        handleError(error, reply);
+      }
+    }
+  );
+
+  // Address history endpoint
+  fastify.get<{ Params: { address: string } }>(
+    '/addresses/:address/history',
+    {
+      schema: {
+        description: `List every transaction that credited or debited an address, ordered by block height.
+        Each entry carries the net delta for the address and the running balance after the transaction.`,
+        tags: ['Addresses'],
+        summary: 'Get address transaction history',
+        params: {
+          type: 'object',
+          properties: {
+            address: {
+              type: 'string',
+              description: 'The address to query',
+            },
+          },
+          required: ['address'],
+        },
+        response: {
+          200: {
+            description: 'History retrieved successfully',
+            ...historySchema,
+            examples: [
+              {
+                address: 'addr3',
+                history: [
+                  { txId: 'tx2', height: 2, received: '60', sent: '0', delta: '60', balance: '60' },
+                  { txId: 'tx3', height: 3, received: '0', sent: '60', delta: '-60', balance: '0' },
+                ],
+              },
+            ],
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { address } = request.params;
+        const history = await blockchainService.getHistory(address);
+        return reply.status(200).send({
+          address,
+          history,
+        });
+      } catch (error) {
+        handleError(error, reply);
+      }
+    }
+  );
+
+  // Supply statistics endpoint
+  fastify.get(
+    '/stats/supply',
+    {
+      schema: {
+        description: `Get chain-wide supply statistics: total value minted by coinbase transactions,
+        total value held in unspent outputs, and the number of UTXOs and funded addresses.
+        Minted and unspent differ by the fees burned so far.`,
+        tags: ['Stats'],
+        summary: 'Get supply statistics',
+        response: {
+          200: {
+            description: 'Supply statistics retrieved successfully',
+            ...supplySchema,
+            examples: [
+              {
+                height: 3,
+                totalMinted: '100',
+                totalUnspent: '100',
+                utxoCount: 3,
+                addressCount: 3,
+              },
+            ],
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const supply = await blockchainService.getSupply();
+        return reply.status(200).send(supply);
+      } catch (error) {
+        handleError(error, reply);
+      }
+    }
+  );
+
+  // Rich list endpoint
+  fastify.get<{ Querystring: { limit?: string } }>(
+    '/stats/richlist',
+    {
+      schema: {
+        description: `List the addresses with the largest current balances.
+        Ties are broken by address so the order is stable.`,
+        tags: ['Stats'],
+        summary: 'Get rich list',
+        querystring: {
+          type: 'object',
+          properties: {
+            limit: {
+              type: 'string',
+              description: 'Maximum number of addresses to return (default 100, max 1000)',
+            },
+          },
+        },
+        response: {
+          200: {
+            description: 'Rich list retrieved successfully',
+            ...richListSchema,
+            examples: [
+              {
+                addresses: [
+                  { rank: 1, address: 'addr3', balance: '50' },
+                  { rank: 2, address: 'addr2', balance: '30' },
+                ],
+              },
+            ],
+          },
+          400: {
+            description: 'Invalid limit',
+            ...errorSchema,
+            examples: [
+              {
+                error: 'Limit must be a positive integer',
+                code: 'INVALID_LIMIT',
+              },
+            ],
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const limit = QueryValidator.validateLimit(request.query.limit);
+        const addresses = await blockchainService.getRichList(limit);
+        return reply.status(200).send({ addresses });
+      } catch (error) {
+        handleError(error, reply);
+      }
+    }
+  );
+
+  // Chain integrity verification endpoint
+  fastify.get(
+    '/chain/verify',
+    {
+      schema: {
+        description: `Walk every stored block and check the chain's integrity: heights are contiguous
+        from 1, each block ID matches the hash of its height and transaction IDs, and each block
+        links to the block below it. Returns every problem found.`,
+        tags: ['Blockchain'],
+        summary: 'Verify chain integrity',
+        response: {
+          200: {
+            description: 'Verification report',
+            ...chainVerificationSchema,
+            examples: [
+              {
+                valid: false,
+                height: 3,
+                checkedBlocks: 3,
+                issues: [
+                  {
+                    height: 2,
+                    blockId: 'cd372fb8...',
+                    error: 'Block ID does not match its contents. Expected 1f0c5a...',
+                    code: 'INVALID_BLOCK_ID',
+                  },
+                ],
+              },
+            ],
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const result = await blockchainService.verifyChain();
+        return reply.status(200).send(result);
+      } catch (error) {
+        handleError(error, reply);
+      }
+    }
+  );
+
   // Rollback endpoint
   fastify.post<{ Querystring: { height: string } }>(
     '/rollback',
@@ -227,10 +985,12 @@ export async function blockchainRoutes(
 }
 
 function handleError(error: any, reply: FastifyReply) {
-  if (error instanceof AppError) {
-    return reply.status(error.statusCode).send({
-      error: error.message,
-      code: error.code,
+  const appError = error instanceof AppError ? error : mapDatabaseError(error);
+
+  if (appError) {
+    return reply.status(appError.statusCode).send({
+      error: appError.message,
+      code: appError.code,
     });
   }
 
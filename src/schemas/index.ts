@@ -7,9 +7,10 @@ export const outputSchema = {
       description: 'The address receiving the output',
     },
     value: {
-      type: 'number',
+      type: ['number', 'string'],
       minimum: 0,
-      description: 'The value being transferred',
+      pattern: '^\\d+(\\.\\d+)?$',
+      description: 'The value being transferred, as a number or a decimal string (use a string for exact amounts)',
     },
   },
   additionalProperties: false,
@@ -28,6 +29,16 @@ export const inputSchema = {
       minimum: 0,
       description: 'The index of the output in the transaction',
     },
+    signature: {
+      type: 'string',
+      pattern: '^[0-9a-fA-F]+$',
+      description: 'Hex signature over the transaction contents',
+    },
+    publicKey: {
+      type: 'string',
+      pattern: '^[0-9a-fA-F]+$',
+      description: 'Hex SPKI DER public key whose SHA256 is the spent output address',
+    },
   },
   additionalProperties: false,
 };
@@ -60,13 +71,18 @@ export const blockSchema = {
   properties: {
     id: {
       type: 'string',
-      description: 'Block hash (SHA256 of height + transaction IDs)',
+      description: 'Block hash (by default SHA256 of height + transaction IDs)',
     },
     height: {
       type: 'number',
       minimum: 1,
       description: 'Block height (sequential number starting from 1)',
     },
+    previousId: {
+      type: 'string',
+      nullable: true,
+      description: 'ID of the current tip this block builds on (omit for the genesis block)',
+    },
     transactions: {
       type: 'array',
       description: 'List of transactions in the block',
@@ -76,6 +92,32 @@ export const blockSchema = {
   additionalProperties: false,
 };
 
+export const blockBatchSchema = {
+  type: 'array',
+  minItems: 1,
+  description: 'Consecutive blocks, ordered by height',
+  items: blockSchema,
+};
+
+export const reorgSchema = {
+  type: 'object',
+  required: ['forkHeight', 'blocks'],
+  properties: {
+    forkHeight: {
+      type: 'number',
+      minimum: 0,
+      description: 'Height of the last block shared by the current chain and the new branch',
+    },
+    blocks: {
+      type: 'array',
+      minItems: 1,
+      description: 'Replacement blocks, starting at forkHeight + 1',
+      items: blockSchema,
+    },
+  },
+  additionalProperties: false,
+};
+
 export const errorSchema = {
   type: 'object',
   properties: {
@@ -106,6 +148,60 @@ export const successSchema = {
   required: ['success'],
 };
 
+export const blockSubmissionSchema = {
+  type: 'object',
+  properties: {
+    success: {
+      type: 'boolean',
+      description: 'Operation success status',
+    },
+    height: {
+      type: 'number',
+      description: 'Height of the submitted block',
+    },
+    alreadyApplied: {
+      type: 'boolean',
+      description: 'True when the block was already on chain and nothing was changed',
+    },
+  },
+  required: ['success', 'height', 'alreadyApplied'],
+};
+
+export const blockValidationSchema = {
+  type: 'object',
+  properties: {
+    valid: {
+      type: 'boolean',
+      description: 'True when the block could be applied on the current tip',
+    },
+    violations: {
+      type: 'array',
+      description: 'Every rule the block breaks, in the order they were checked',
+      items: errorSchema,
+    },
+  },
+  required: ['valid', 'violations'],
+};
+
+export const batchSuccessSchema = {
+  type: 'object',
+  properties: {
+    success: {
+      type: 'boolean',
+      description: 'Operation success status',
+    },
+    height: {
+      type: 'number',
+      description: 'Blockchain height after the batch',
+    },
+    count: {
+      type: 'number',
+      description: 'Number of blocks newly applied; blocks already on chain are skipped',
+    },
+  },
+  required: ['success', 'height', 'count'],
+};
+
 export const balanceSchema = {
   type: 'object',
   properties: {
@@ -114,8 +210,12 @@ export const balanceSchema = {
       description: 'The address queried',
     },
     balance: {
+      type: 'string',
+      description: 'Unspent balance for the address as a decimal string (at the requested height, if any)',
+    },
+    height: {
       type: 'number',
-      description: 'Current unspent balance for the address',
+      description: 'Height the balance was computed at, when atHeight was requested',
     },
   },
   required: ['address', 'balance'],
@@ -134,4 +234,377 @@ export const healthSchema = {
     },
   },
   required: ['status', 'currentHeight'],
-};
\ No newline at end of file
+};
+
+export const utxoSchema = {
+  type: 'object',
+  properties: {
+    txId: {
+      type: 'string',
+      description: 'The transaction ID that created the output',
+    },
+    index: {
+      type: 'number',
+      description: 'The index of the output in the transaction',
+    },
+    value: {
+      type: 'string',
+      description: 'The value held by the output as a decimal string',
+    },
+    height: {
+      type: 'number',
+      description: 'Height of the block that created the output',
+    },
+  },
+  required: ['txId', 'index', 'value', 'height'],
+};
+
+export const utxoListSchema = {
+  type: 'object',
+  properties: {
+    address: {
+      type: 'string',
+      description: 'The address queried',
+    },
+    utxos: {
+      type: 'array',
+      description: 'Unspent outputs for the address, oldest first',
+      items: utxoSchema,
+    },
+    nextCursor: {
+      type: 'string',
+      nullable: true,
+      description: 'Cursor for the next page, or null when there are no more results',
+    },
+  },
+  required: ['address', 'utxos', 'nextCursor'],
+};
+
+
+export const historyEntrySchema = {
+  type: 'object',
+  properties: {
+    txId: {
+      type: 'string',
+      description: 'The transaction that credited or debited the address',
+    },
+    height: {
+      type: 'number',
+      description: 'Height of the block containing the transaction',
+    },
+    received: {
+      type: 'string',
+      description: 'Value the transaction sent to the address as a decimal string',
+    },
+    sent: {
+      type: 'string',
+      description: 'Value the transaction spent from the address as a decimal string',
+    },
+    delta: {
+      type: 'string',
+      description: 'Net change in balance (received - sent) as a decimal string',
+    },
+    balance: {
+      type: 'string',
+      description: 'Address balance after the transaction as a decimal string',
+    },
+  },
+  required: ['txId', 'height', 'received', 'sent', 'delta', 'balance'],
+};
+
+export const historySchema = {
+  type: 'object',
+  properties: {
+    address: {
+      type: 'string',
+      description: 'The address queried',
+    },
+    history: {
+      type: 'array',
+      description: 'Transactions affecting the address, ordered by block height',
+      items: historyEntrySchema,
+    },
+  },
+  required: ['address', 'history'],
+};
+
+export const storedInputSchema = {
+  type: 'object',
+  properties: {
+    txId: {
+      type: 'string',
+      description: 'The transaction ID of the output being spent',
+    },
+    index: {
+      type: 'number',
+      description: 'The index of the output in the transaction',
+    },
+    address: {
+      type: 'string',
+      description: 'Address that owned the spent output',
+    },
+    value: {
+      type: 'string',
+      description: 'Value of the spent output as a decimal string',
+    },
+    signature: {
+      type: 'string',
+      description: 'Hex signature supplied with the input, if any',
+    },
+    publicKey: {
+      type: 'string',
+      description: 'Hex SPKI DER public key supplied with the input, if any',
+    },
+  },
+  required: ['txId', 'index', 'address', 'value'],
+};
+
+export const storedOutputSchema = {
+  type: 'object',
+  properties: {
+    index: {
+      type: 'number',
+      description: 'The index of the output in the transaction',
+    },
+    address: {
+      type: 'string',
+      description: 'The address receiving the output',
+    },
+    value: {
+      type: 'string',
+      description: 'The value being transferred as a decimal string',
+    },
+    spent: {
+      type: 'boolean',
+      description: 'Whether the output has been spent',
+    },
+    spentByTx: {
+      type: 'string',
+      nullable: true,
+      description: 'Transaction that spent the output, if any',
+    },
+  },
+  required: ['index', 'address', 'value', 'spent', 'spentByTx'],
+};
+
+export const storedTransactionSchema = {
+  type: 'object',
+  properties: {
+    id: {
+      type: 'string',
+      description: 'Unique transaction identifier',
+    },
+    blockId: {
+      type: 'string',
+      description: 'Block containing the transaction',
+    },
+    height: {
+      type: 'number',
+      description: 'Height of the block containing the transaction',
+    },
+    fee: {
+      type: 'string',
+      description: 'Fee paid by the transaction (inputs - outputs) as a decimal string',
+    },
+    inputs: {
+      type: 'array',
+      description: 'Inputs resolved to the outputs they spend',
+      items: storedInputSchema,
+    },
+    outputs: {
+      type: 'array',
+      description: 'Outputs created by the transaction',
+      items: storedOutputSchema,
+    },
+  },
+  required: ['id', 'blockId', 'height', 'fee', 'inputs', 'outputs'],
+};
+
+export const storedBlockSchema = {
+  type: 'object',
+  properties: {
+    id: {
+      type: 'string',
+      description: 'Block hash',
+    },
+    height: {
+      type: 'number',
+      description: 'Block height',
+    },
+    previousId: {
+      type: 'string',
+      nullable: true,
+      description: 'ID of the block below this one, or null for the genesis block',
+    },
+    transactions: {
+      type: 'array',
+      description: 'Transactions stored for the block',
+      items: storedTransactionSchema,
+    },
+  },
+  required: ['id', 'height', 'previousId', 'transactions'],
+};
+
+export const blockListSchema = {
+  type: 'object',
+  properties: {
+    blocks: {
+      type: 'array',
+      description: 'Stored blocks in the requested range, ordered by height',
+      items: storedBlockSchema,
+    },
+  },
+  required: ['blocks'],
+};
+
+export const supplySchema = {
+  type: 'object',
+  properties: {
+    height: {
+      type: 'number',
+      description: 'Current blockchain height',
+    },
+    totalMinted: {
+      type: 'string',
+      description: 'Total value issued by coinbase transactions as a decimal string',
+    },
+    totalUnspent: {
+      type: 'string',
+      description: 'Total value held in unspent outputs as a decimal string',
+    },
+    utxoCount: {
+      type: 'number',
+      description: 'Number of unspent outputs',
+    },
+    addressCount: {
+      type: 'number',
+      description: 'Number of addresses with a positive balance',
+    },
+  },
+  required: ['height', 'totalMinted', 'totalUnspent', 'utxoCount', 'addressCount'],
+};
+
+export const richListSchema = {
+  type: 'object',
+  properties: {
+    addresses: {
+      type: 'array',
+      description: 'Addresses ordered by balance, largest first',
+      items: {
+        type: 'object',
+        properties: {
+          rank: {
+            type: 'number',
+            description: 'Position in the rich list, starting at 1',
+          },
+          address: {
+            type: 'string',
+            description: 'The address',
+          },
+          balance: {
+            type: 'string',
+            description: 'Current balance as a decimal string',
+          },
+        },
+        required: ['rank', 'address', 'balance'],
+      },
+    },
+  },
+  required: ['addresses'],
+};
+
+export const chainVerificationSchema = {
+  type: 'object',
+  properties: {
+    valid: {
+      type: 'boolean',
+      description: 'True when every stored block passed verification',
+    },
+    height: {
+      type: 'number',
+      description: 'Current blockchain height',
+    },
+    checkedBlocks: {
+      type: 'number',
+      description: 'Number of stored blocks that were checked',
+    },
+    issues: {
+      type: 'array',
+      description: 'Problems found, ordered by height',
+      items: {
+        type: 'object',
+        properties: {
+          height: {
+            type: 'number',
+            description: 'Height of the offending block',
+          },
+          blockId: {
+            type: 'string',
+            description: 'ID of the offending block',
+          },
+          error: {
+            type: 'string',
+            description: 'Description of the problem',
+          },
+          code: {
+            type: 'string',
+            description: 'Problem code for programmatic handling',
+          },
+        },
+        required: ['height', 'blockId', 'error', 'code'],
+      },
+    },
+  },
+  required: ['valid', 'height', 'checkedBlocks', 'issues'],
+};
+
+export const transactionProofSchema = {
+  type: 'object',
+  properties: {
+    txId: {
+      type: 'string',
+      description: 'The transaction ID',
+    },
+    blockId: {
+      type: 'string',
+      description: 'ID of the block containing the transaction',
+    },
+    height: {
+      type: 'number',
+      description: 'Height of the block containing the transaction',
+    },
+    index: {
+      type: 'number',
+      description: 'Position of the transaction in the block',
+    },
+    merkleRoot: {
+      type: 'string',
+      description: "Merkle root over the block's transaction IDs, hex encoded",
+    },
+    anchored: {
+      type: 'boolean',
+      description:
+        'True when the block ID commits to merkleRoot (BLOCK_HASH_SCHEME=merkle); otherwise the root is only vouched for by the indexer',
+    },
+    proof: {
+      type: 'array',
+      description: 'Sibling hashes from the transaction up to the root',
+      items: {
+        type: 'object',
+        properties: {
+          hash: {
+            type: 'string',
+            description: 'Sibling hash, hex encoded',
+          },
+          position: {
+            type: 'string',
+            enum: ['left', 'right'],
+            description: 'Side of the running hash the sibling is placed on',
+          },
+        },
+        required: ['hash', 'position'],
+      },
+    },
+  },
+  required: ['txId', 'blockId', 'height', 'index', 'merkleRoot', 'anchored', 'proof'],
+};
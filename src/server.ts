@@ -6,6 +6,7 @@ import { runMigrations } from './db/migrations';
 import { BlockchainService } from './services/BlockchainService';
 import { blockchainRoutes } from './routes/blockchain';
 import { config } from './config';
+import { secp256k1Supported } from './crypto/signature';
 import { swaggerConfig, swaggerUiConfig } from './config/swagger';
 
 export async function createServer() {
@@ -33,6 +34,12 @@ export async function createServer() {
   // Initialize services
   const blockchainService = new BlockchainService(pool);
 
+  if (config.blockchain.verifySignatures && !secp256k1Supported) {
+    fastify.log.warn(
+      'This runtime has no secp256k1 support: inputs signed with secp256k1 keys will be rejected with UNSUPPORTED_KEY_TYPE'
+    );
+  }
+
   // Register routes
   await fastify.register(blockchainRoutes, { blockchainService });
 
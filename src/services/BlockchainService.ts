@@ -1,42 +1,195 @@
 import { Pool } from 'pg';
-import { createHash } from 'crypto';
-import { Block, Transaction } from '../types';
+import type { PoolClient } from 'pg';
+import type {
+  AddressHistoryEntry,
+  Block,
+  BlockValidationResult,
+  ChainIssue,
+  ChainVerificationResult,
+  Input,
+  RichListEntry,
+  StoredBlock,
+  StoredInput,
+  StoredOutput,
+  StoredTransaction,
+  SupplyStats,
+  TransactionProof,
+  UtxoPage,
+} from '../types';
 import { BlockRepository } from '../repositories/BlockRepository';
+import type { BlockRecord } from '../repositories/BlockRepository';
 import { TransactionRepository } from '../repositories/TransactionRepository';
+import type { TransactionRecord } from '../repositories/TransactionRepository';
 import { OutputRepository } from '../repositories/OutputRepository';
-import { ValidationError, BlockchainError, ConflictError } from '../errors';
+import { InputRepository } from '../repositories/InputRepository';
+import { BalanceRepository } from '../repositories/BalanceRepository';
+import { IssuancePolicy } from './IssuancePolicy';
+import { getBlockHashFunction } from '../crypto/blockHash';
+import type { BlockHashFunction } from '../crypto/blockHash';
+import { merkleProof, merkleRoot } from '../crypto/merkle';
+import {
+  addressFromPublicKey,
+  signingMessage,
+  unsupportedKeyType,
+  verifySignature,
+} from '../crypto/signature';
+import {
+  AppError,
+  ValidationError,
+  BlockchainError,
+  ConflictError,
+  NotFoundError,
+  throwViolation,
+} from '../errors';
+import type { ViolationHandler } from '../errors';
+import { BlockValidator } from '../validators/BlockValidator';
 import { config } from '../config';
+import { MAX_INTEGER } from '../validators/QueryValidator';
+import { formatAmount } from '../utils/amount';
+
+// Advisory lock key taken by every transaction that changes the chain
+const CHAIN_WRITE_LOCK = 7_325_001;
+
+const CHAIN_VERIFY_PAGE_SIZE = 1000;
 
 export class BlockchainService {
   private blockRepo: BlockRepository;
   private txRepo: TransactionRepository;
   private outputRepo: OutputRepository;
+  private inputRepo: InputRepository;
+  private balanceRepo: BalanceRepository;
+  private issuancePolicy: IssuancePolicy;
+  private blockHash: BlockHashFunction;
 
   constructor(private pool: Pool) {
     this.blockRepo = new BlockRepository(pool);
     this.txRepo = new TransactionRepository(pool);
     this.outputRepo = new OutputRepository(pool);
+    this.inputRepo = new InputRepository(pool);
+    this.balanceRepo = new BalanceRepository(pool);
+    this.issuancePolicy = IssuancePolicy.fromConfig();
+    this.blockHash = getBlockHashFunction(config.blockchain.blockHashScheme);
   }
 
-  async processBlock(block: Block): Promise<void> {
-    // Validate block
-    await this.validateBlock(block);
+  // Returns true when the block was already on chain, so retried submissions
+  // of a committed block succeed without applying it twice
+  async processBlock(block: Block): Promise<boolean> {
+    return this.runInTransaction(async client => {
+      if (await this.isAlreadyApplied(client, block)) {
+        return true;
+      }
 
-    // Process in transaction
-    const client = await this.pool.connect();
+      await this.applyBlock(client, block);
+      return false;
+    });
+  }
 
-    try {
-      await client.query('BEGIN');
+  // Runs the full validation pipeline against the current tip without writing anything
+  async validateCandidateBlock(block: Block): Promise<BlockValidationResult> {
+    const violations: AppError[] = [];
+
+    await this.runReadOnly(client =>
+      this.validateBlock(client, block, violation => violations.push(violation))
+    );
+
+    return {
+      valid: violations.length === 0,
+      violations: violations.map(violation => ({
+        error: violation.message,
+        code: violation.code,
+      })),
+    };
+  }
+
+  // Returns the height after the batch and how many of its blocks were newly
+  // applied; blocks already on chain are skipped, so a committed batch can be retried
+  async processBlocks(blocks: Block[]): Promise<{ height: number; applied: number }> {
+    if (blocks.length === 0) {
+      throw new ValidationError('Batch must include at least one block', 'INVALID_BATCH');
+    }
+
+    // Apply the whole batch in one transaction: either every block is committed or none
+    return this.runInTransaction(async client => {
+      let applied = 0;
+
+      for (const block of blocks) {
+        try {
+          if (await this.isAlreadyApplied(client, block)) {
+            continue;
+          }
+          await this.applyBlock(client, block);
+          applied++;
+        } catch (error) {
+          if (error instanceof AppError) {
+            error.message = `Block at height ${block.height}: ${error.message}`;
+          }
+          throw error;
+        }
+      }
+
+      return { height: blocks[blocks.length - 1].height, applied };
+    });
+  }
+
+  async reorg(forkHeight: number, blocks: Block[]): Promise<number> {
+    if (blocks.length === 0) {
+      throw new ValidationError('Reorg must include at least one block', 'INVALID_REORG');
+    }
 
-      // Create block
-      await this.blockRepo.createBlock(client, block);
+    // Roll back and apply the new branch atomically: if any block fails,
+    // the whole transaction is rolled back and the original tip is kept
+    return this.runInTransaction(async client => {
+      await this.rollbackTo(client, forkHeight);
 
-      // Process transactions
-      for (const tx of block.transactions) {
-        await this.processTransaction(client, tx, block.id);
+      for (const block of blocks) {
+        await this.applyBlock(client, block);
       }
 
+      return blocks[blocks.length - 1].height;
+    });
+  }
+
+  // A block matching a stored ID and height is a retry, unless it claims a
+  // different parent than the stored block, which makes it a fork
+  private async isAlreadyApplied(client: PoolClient, block: Block): Promise<boolean> {
+    if (!(await this.blockRepo.blockExists(block.id, block.height, client))) {
+      return false;
+    }
+
+    this.validateBlockId(block);
+    const parent = await this.blockRepo.getBlockByHeight(block.height - 1, client);
+    this.validatePreviousId(block, parent, throwViolation);
+    return true;
+  }
+
+  private async applyBlock(client: PoolClient, block: Block): Promise<void> {
+    // Validate block against the state seen by this transaction
+    const fees = await this.validateBlock(client, block);
+
+    // Create block, then write its transactions, outputs and inputs in bulk.
+    // Outputs are inserted before any are spent so later transactions in the
+    // block can spend outputs created earlier in it.
+    await this.blockRepo.createBlock(client, block);
+    await this.txRepo.createTransactions(client, block.id, block.transactions, fees);
+    await this.outputRepo.createOutputs(client, block.transactions);
+    await this.inputRepo.createInputs(client, block.transactions);
+    await this.outputRepo.markOutputsAsSpent(client, block.transactions);
+    await this.balanceRepo.applyTransactions(client, block.transactions);
+  }
+
+  private async runInTransaction<T>(
+    operation: (client: PoolClient) => Promise<T>
+  ): Promise<T> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      // Serialize chain writes so height and spent checks can't race: a
+      // concurrent submission waits here, then validates against the new tip
+      await client.query('SELECT pg_advisory_xact_lock($1)', [CHAIN_WRITE_LOCK]);
+      const result = await operation(client);
       await client.query('COMMIT');
+      return result;
     } catch (error) {
       await client.query('ROLLBACK');
       throw error;
@@ -45,109 +198,471 @@ export class BlockchainService {
     }
   }
 
-  private async processTransaction(
-    client: any,
-    tx: Transaction,
-    blockId: string
-  ): Promise<void> {
-    // Create transaction record
-    await this.txRepo.createTransaction(client, tx, blockId);
-
-    // Process inputs (spend outputs)
-    for (let i = 0; i < tx.inputs.length; i++) {
-      const input = tx.inputs[i];
-      await this.outputRepo.markOutputAsSpent(
-        client,
-        input.txId,
-        input.index,
-        tx.id,
-        i
-      );
-    }
+  // Reads from a single snapshot; used for checks that must not block writers
+  private async runReadOnly<T>(operation: (client: PoolClient) => Promise<T>): Promise<T> {
+    const client = await this.pool.connect();
 
-    // Create new outputs
-    for (let i = 0; i < tx.outputs.length; i++) {
-      await this.outputRepo.createOutput(client, tx.id, i, tx.outputs[i]);
+    try {
+      await client.query('BEGIN ISOLATION LEVEL REPEATABLE READ READ ONLY');
+      return await operation(client);
+    } finally {
+      await client.query('ROLLBACK');
+      client.release();
     }
   }
 
-  private async validateBlock(block: Block): Promise<void> {
-    const currentHeight = await this.blockRepo.getCurrentHeight();
+  private async validateBlock(
+    client: PoolClient,
+    block: Block,
+    report: ViolationHandler = throwViolation
+  ): Promise<bigint[]> {
+    const tip = await this.blockRepo.getTip(client);
+    const currentHeight = tip?.height ?? 0;
 
     // Validate height
     if (block.height !== currentHeight + 1) {
-      throw new ValidationError(
-        `Invalid height. Expected ${currentHeight + 1}, got ${block.height}`,
-        'INVALID_HEIGHT'
+      report(
+        new ValidationError(
+          `Invalid height. Expected ${currentHeight + 1}, got ${block.height}`,
+          'INVALID_HEIGHT'
+        )
       );
     }
 
     // Validate block hash
+    this.validateBlockId(block, report);
+
+    // Validate linkage to the current tip
+    this.validatePreviousId(block, tip, report);
+
+    // Validate transaction IDs are unique within the block and match their contents
+    BlockValidator.validateTransactionIds(block, report);
+
+    // Validate transaction IDs are new to the chain
+    const existingIds = await this.txRepo.getExistingTransactionIds(
+      block.transactions.map(tx => tx.id),
+      client
+    );
+
+    if (existingIds.length > 0) {
+      report(
+        new ConflictError(
+          `Transaction already exists: ${existingIds.join(', ')}`,
+          'DUPLICATE_TRANSACTION'
+        )
+      );
+    }
+
+    // Validate transaction balances
+    return this.validateTransactionBalances(client, block, report);
+  }
+
+  private validateBlockId(block: Block, report: ViolationHandler = throwViolation): void {
     const expectedHash = this.calculateBlockHash(
       block.height,
       block.transactions.map(tx => tx.id)
     );
 
     if (block.id !== expectedHash) {
-      throw new ValidationError(
-        `Invalid block ID. Expected ${expectedHash}, got ${block.id}`,
-        'INVALID_BLOCK_ID'
+      report(
+        new ValidationError(
+          `Invalid block ID. Expected ${expectedHash}, got ${block.id}`,
+          'INVALID_BLOCK_ID'
+        )
       );
     }
+  }
+
+  private validatePreviousId(
+    block: Block,
+    tip: BlockRecord | null,
+    report: ViolationHandler
+  ): void {
+    const expectedId = tip?.id ?? null;
+
+    if (block.previousId === undefined || block.previousId === null) {
+      if (config.blockchain.requirePreviousId && expectedId !== null) {
+        report(
+          new ValidationError(
+            `Previous block ID is required. Expected ${expectedId}`,
+            'INVALID_PREVIOUS_ID'
+          )
+        );
+      }
+      return;
+    }
 
-    // Validate transaction balances
-    await this.validateTransactionBalances(block);
+    if (block.previousId !== expectedId) {
+      report(
+        new ValidationError(
+          `Invalid previous block ID. Expected ${expectedId ?? 'none for the genesis block'}, got ${block.previousId}`,
+          'INVALID_PREVIOUS_ID'
+        )
+      );
+    }
   }
 
-  private async validateTransactionBalances(block: Block): Promise<void> {
-    let totalInputValue = 0;
-    let totalOutputValue = 0;
+  private async validateTransactionBalances(
+    client: PoolClient,
+    block: Block,
+    report: ViolationHandler
+  ): Promise<bigint[]> {
+    // Fee paid by each transaction, by position in the block
+    const fees: bigint[] = [];
+    let totalFees = 0n;
+    let coinbaseValue = 0n;
+
+    // Outputs created by earlier transactions in this block, spendable by later ones
+    const blockOutputs = new Map<string, { address: string; value: bigint; spent: boolean }>();
+    // Outputs already spent by an input in this block
+    const spentInBlock = new Set<string>();
+
+    // Stored outputs referenced by any input in the block, fetched up front
+    const storedOutputs = new Map(
+      (await this.outputRepo.getOutputsSpentBy(client, block.transactions)).map(output => [
+        this.outputKey(output.tx_id, output.output_index),
+        output,
+      ])
+    );
 
     for (const tx of block.transactions) {
+      let inputValue = 0n;
+      let outputValue = 0n;
+      let inputsValid = true;
+      const message = config.blockchain.verifySignatures ? signingMessage(tx) : null;
+
       // Calculate input values
       for (const input of tx.inputs) {
-        const output = await this.outputRepo.getOutput(input.txId, input.index);
+        const key = this.outputKey(input.txId, input.index);
+        if (spentInBlock.has(key)) {
+          report(new ConflictError(`Output already spent in this block: ${key}`, 'DOUBLE_SPEND'));
+          inputsValid = false;
+          continue;
+        }
+        spentInBlock.add(key);
+
+        const output = blockOutputs.get(key) ?? storedOutputs.get(key);
         if (!output) {
-          throw new ValidationError(
-            `Input references non-existent output: ${input.txId}:${input.index}`,
-            'INVALID_INPUT'
+          report(
+            new ValidationError(
+              `Input references non-existent output: ${input.txId}:${input.index}`,
+              'INVALID_INPUT'
+            )
           );
+          inputsValid = false;
+          continue;
         }
         if (output.spent) {
-          throw new ConflictError(
-            `Output already spent: ${input.txId}:${input.index}`,
-            'DOUBLE_SPEND'
+          report(
+            new ConflictError(
+              `Output already spent: ${input.txId}:${input.index}`,
+              'DOUBLE_SPEND'
+            )
           );
+          inputsValid = false;
+          continue;
+        }
+        if (message) {
+          const violation = this.checkInputSignature(message, input, output.address);
+          if (violation) {
+            report(violation);
+            inputsValid = false;
+            continue;
+          }
         }
-        totalInputValue += output.value;
+        inputValue += output.value;
       }
 
       // Calculate output values
-      for (const output of tx.outputs) {
-        totalOutputValue += output.value;
+      tx.outputs.forEach((output, index) => {
+        outputValue += output.value;
+        blockOutputs.set(this.outputKey(tx.id, index), {
+          address: output.address,
+          value: output.value,
+          spent: false,
+        });
+      });
+
+      // Transactions without inputs mint new value and are checked below
+      if (tx.inputs.length === 0) {
+        coinbaseValue += outputValue;
+        fees.push(0n);
+        continue;
       }
+
+      // Value can't be checked when some inputs couldn't be resolved
+      if (!inputsValid) {
+        fees.push(0n);
+        continue;
+      }
+
+      const fee = inputValue - outputValue;
+      const unbalanced = config.blockchain.allowFees ? fee < 0n : fee !== 0n;
+
+      if (unbalanced) {
+        report(
+          new ValidationError(
+            `Input/Output value mismatch in transaction ${tx.id}. Inputs: ${formatAmount(inputValue)}, Outputs: ${formatAmount(outputValue)}`,
+            'VALUE_MISMATCH'
+          )
+        );
+        fees.push(0n);
+        continue;
+      }
+
+      fees.push(fee);
+      totalFees += fee;
     }
 
-    // First block (genesis) can have outputs without inputs
-    if (block.height > 1 && Math.abs(totalInputValue - totalOutputValue) > 0.000001) {
-      throw new ValidationError(
-        `Input/Output value mismatch. Inputs: ${totalInputValue}, Outputs: ${totalOutputValue}`,
-        'VALUE_MISMATCH'
+    // Coinbase transactions may claim the block subsidy plus fees (genesis mints freely)
+    const subsidy = this.issuancePolicy.getSubsidy(block.height);
+    if (subsidy !== null && coinbaseValue > subsidy + totalFees) {
+      report(
+        new ValidationError(
+          `Coinbase outputs exceed block reward plus fees. Claimable: ${formatAmount(subsidy + totalFees)}, Claimed: ${formatAmount(coinbaseValue)}`,
+          'INVALID_COINBASE'
+        )
+      );
+    }
+
+    return fees;
+  }
+
+  // Explains why an input can't spend an output owned by the address, or returns null if it can
+  private checkInputSignature(message: Buffer, input: Input, address: string): AppError | null {
+    const outpoint = this.outputKey(input.txId, input.index);
+
+    if (!input.signature || !input.publicKey) {
+      return new ValidationError(
+        `Input ${outpoint} must carry a signature and public key`,
+        'INVALID_SIGNATURE'
+      );
+    }
+    if (addressFromPublicKey(input.publicKey) !== address) {
+      return new ValidationError(
+        `Public key for input ${outpoint} does not match output address ${address}`,
+        'INVALID_SIGNATURE'
+      );
+    }
+    const keyType = unsupportedKeyType(input.publicKey);
+    if (keyType) {
+      return new ValidationError(
+        `Unsupported key type for input ${outpoint}: ${keyType} signatures can't be verified by this runtime`,
+        'UNSUPPORTED_KEY_TYPE'
       );
     }
+    if (!verifySignature(message, input.publicKey, input.signature)) {
+      return new ValidationError(`Invalid signature for input ${outpoint}`, 'INVALID_SIGNATURE');
+    }
+    return null;
+  }
+
+  private outputKey(txId: string, index: number): string {
+    return `${txId}:${index}`;
   }
 
   private calculateBlockHash(height: number, transactionIds: string[]): string {
-    const data = height.toString() + transactionIds.join('');
-    return createHash('sha256').update(data).digest('hex');
+    return this.blockHash(height, transactionIds);
+  }
+
+  async getBalance(address: string, atHeight?: number): Promise<bigint> {
+    if (atHeight === undefined) {
+      return this.balanceRepo.getBalance(address);
+    }
+
+    const currentHeight = await this.blockRepo.getCurrentHeight();
+
+    if (atHeight > currentHeight) {
+      throw new ValidationError(
+        `Cannot query balance at future height. Current: ${currentHeight}, Requested: ${atHeight}`,
+        'FUTURE_HEIGHT'
+      );
+    }
+
+    return this.outputRepo.getBalanceForAddressAtHeight(address, atHeight);
+  }
+
+  async getUtxos(
+    address: string,
+    options: { limit: number; cursor?: number; minValue?: bigint }
+  ): Promise<UtxoPage> {
+    // Fetch one extra row to know whether another page exists
+    const rows = await this.outputRepo.getUnspentOutputsForAddress(address, {
+      limit: options.limit + 1,
+      afterId: options.cursor,
+      minValue: options.minValue,
+    });
+
+    const page = rows.slice(0, options.limit);
+    const hasMore = rows.length > options.limit;
+
+    return {
+      utxos: page.map(row => row.utxo),
+      nextCursor: hasMore ? page[page.length - 1].id.toString() : null,
+    };
+  }
+
+  async getHistory(address: string): Promise<AddressHistoryEntry[]> {
+    return this.outputRepo.getHistoryForAddress(address);
+  }
+
+  async getSupply(): Promise<SupplyStats> {
+    const [height, totalMinted, totals, utxoCount] = await Promise.all([
+      this.blockRepo.getCurrentHeight(),
+      this.txRepo.getTotalMinted(),
+      this.balanceRepo.getTotals(),
+      this.outputRepo.getUnspentCount(),
+    ]);
+
+    return {
+      height,
+      totalMinted,
+      totalUnspent: totals.totalUnspent,
+      utxoCount,
+      addressCount: totals.addressCount,
+    };
+  }
+
+  async getRichList(limit: number): Promise<RichListEntry[]> {
+    const balances = await this.balanceRepo.getTopBalances(limit);
+    return balances.map((entry, index) => ({ rank: index + 1, ...entry }));
+  }
+
+  async getBlock(heightOrId: string): Promise<StoredBlock> {
+    let block: BlockRecord | null;
+    if (/^\d+$/.test(heightOrId)) {
+      // Heights beyond the INTEGER column range can't exist
+      const height = Number(heightOrId);
+      block = height <= MAX_INTEGER ? await this.blockRepo.getBlockByHeight(height) : null;
+    } else {
+      block = await this.blockRepo.getBlockById(heightOrId);
+    }
+
+    if (!block) {
+      throw new NotFoundError(`Block not found: ${heightOrId}`, 'BLOCK_NOT_FOUND');
+    }
+
+    const [storedBlock] = await this.loadBlocks([block]);
+    return storedBlock;
+  }
+
+  async getBlocks(from: number, to: number): Promise<StoredBlock[]> {
+    const blocks = await this.blockRepo.getBlocksInRange(from, to);
+    return this.loadBlocks(blocks);
+  }
+
+  async getTransaction(txId: string): Promise<StoredTransaction> {
+    const tx = await this.txRepo.getTransactionById(txId);
+
+    if (!tx) {
+      throw new NotFoundError(`Transaction not found: ${txId}`, 'TRANSACTION_NOT_FOUND');
+    }
+
+    const [storedTx] = await this.loadTransactions([tx]);
+    return storedTx;
+  }
+
+  // Merkle path from the transaction to the root over its block's transaction IDs
+  async getTransactionProof(txId: string): Promise<TransactionProof> {
+    const tx = await this.txRepo.getTransactionById(txId);
+
+    if (!tx) {
+      throw new NotFoundError(`Transaction not found: ${txId}`, 'TRANSACTION_NOT_FOUND');
+    }
+
+    const blockTxIds = await this.txRepo.getTransactionIdsByBlockId(tx.block_id);
+    const index = blockTxIds.indexOf(txId);
+
+    return {
+      txId,
+      blockId: tx.block_id,
+      height: tx.height,
+      index,
+      merkleRoot: merkleRoot(blockTxIds).toString('hex'),
+      anchored: config.blockchain.blockHashScheme === 'merkle',
+      proof: merkleProof(blockTxIds, index),
+    };
   }
 
-  async getBalance(address: string): Promise<number> {
-    return this.outputRepo.getBalanceForAddress(address);
+  private async loadBlocks(blocks: BlockRecord[]): Promise<StoredBlock[]> {
+    if (blocks.length === 0) {
+      return [];
+    }
+
+    const txRecords = await this.txRepo.getTransactionsByBlockIds(
+      blocks.map(block => block.id)
+    );
+    const transactions = await this.loadTransactions(txRecords);
+
+    const transactionsByBlock = new Map<string, StoredTransaction[]>();
+    for (const tx of transactions) {
+      const blockTransactions = transactionsByBlock.get(tx.blockId) ?? [];
+      blockTransactions.push(tx);
+      transactionsByBlock.set(tx.blockId, blockTransactions);
+    }
+
+    return blocks.map(block => ({
+      id: block.id,
+      height: block.height,
+      previousId: block.previous_id,
+      transactions: transactionsByBlock.get(block.id) ?? [],
+    }));
+  }
+
+  private async loadTransactions(txRecords: TransactionRecord[]): Promise<StoredTransaction[]> {
+    if (txRecords.length === 0) {
+      return [];
+    }
+
+    const txIds = txRecords.map(tx => tx.id);
+    const [inputs, outputs] = await Promise.all([
+      this.inputRepo.getInputsByTransactionIds(txIds),
+      this.outputRepo.getOutputsByTransactionIds(txIds),
+    ]);
+
+    const inputsByTx = new Map<string, StoredInput[]>();
+    for (const input of inputs) {
+      const txInputs = inputsByTx.get(input.tx_id) ?? [];
+      txInputs.push({
+        txId: input.prev_tx_id,
+        index: input.prev_output_index,
+        address: input.address,
+        value: input.value,
+        ...(input.signature !== null && { signature: input.signature }),
+        ...(input.public_key !== null && { publicKey: input.public_key }),
+      });
+      inputsByTx.set(input.tx_id, txInputs);
+    }
+
+    const outputsByTx = new Map<string, StoredOutput[]>();
+    for (const output of outputs) {
+      const txOutputs = outputsByTx.get(output.tx_id) ?? [];
+      txOutputs.push({
+        index: output.output_index,
+        address: output.address,
+        value: output.value,
+        spent: output.spent,
+        spentByTx: output.spent_by_tx,
+      });
+      outputsByTx.set(output.tx_id, txOutputs);
+    }
+
+    return txRecords.map(tx => ({
+      id: tx.id,
+      blockId: tx.block_id,
+      height: tx.height,
+      fee: tx.fee,
+      inputs: inputsByTx.get(tx.id) ?? [],
+      outputs: outputsByTx.get(tx.id) ?? [],
+    }));
   }
 
   async rollback(targetHeight: number): Promise<void> {
-    const currentHeight = await this.blockRepo.getCurrentHeight();
+    await this.runInTransaction(client => this.rollbackTo(client, targetHeight));
+  }
+
+  private async rollbackTo(client: PoolClient, targetHeight: number): Promise<void> {
+    const currentHeight = await this.blockRepo.getCurrentHeight(client);
 
     // Validate rollback
     if (targetHeight < 0) {
@@ -168,40 +683,68 @@ export class BlockchainService {
       );
     }
 
-    // Perform rollback in transaction
-    const client = await this.pool.connect();
+    // Reverse the balance changes of the rolled back blocks, then unspend
+    // the outputs they spent
+    await this.balanceRepo.revertBlocksAboveHeight(client, targetHeight);
+    await this.outputRepo.unspendOutputsAboveHeight(client, targetHeight);
 
-    try {
-      await client.query('BEGIN');
+    // Delete blocks (cascades to transactions and outputs)
+    await this.blockRepo.deleteBlocksAboveHeight(client, targetHeight);
+  }
 
-      // Get blocks to delete
-      const blocksToDelete = await this.blockRepo.getBlocksAboveHeight(
-        client,
-        targetHeight
-      );
+  // Recomputes every stored block's ID and checks heights and previous-block
+  // links, reading the chain in pages from a single snapshot
+  async verifyChain(): Promise<ChainVerificationResult> {
+    return this.runReadOnly(async client => {
+      const issues: ChainIssue[] = [];
+      let previous: BlockRecord | null = null;
+      let checkedBlocks = 0;
 
-      // Unspend outputs for each transaction
-      for (const block of blocksToDelete) {
-        const transactions = await this.txRepo.getTransactionsByBlockId(
+      for (;;) {
+        const blocks = await this.blockRepo.getBlockLinks(
           client,
-          block.id
+          previous?.height ?? 0,
+          CHAIN_VERIFY_PAGE_SIZE
         );
 
-        for (const tx of transactions) {
-          await this.outputRepo.unspendOutputsByTransaction(client, tx.id);
+        for (const block of blocks) {
+          const addIssue = (error: string, code: string) =>
+            issues.push({ height: block.height, blockId: block.id, error, code });
+
+          const expectedHeight = (previous?.height ?? 0) + 1;
+          if (block.height !== expectedHeight) {
+            addIssue(`Expected height ${expectedHeight}, found ${block.height}`, 'HEIGHT_GAP');
+          }
+
+          const expectedHash = this.calculateBlockHash(block.height, block.tx_ids);
+          if (block.id !== expectedHash) {
+            addIssue(`Block ID does not match its contents. Expected ${expectedHash}`, 'INVALID_BLOCK_ID');
+          }
+
+          const expectedPreviousId = previous?.id ?? null;
+          if (block.previous_id !== expectedPreviousId) {
+            addIssue(
+              `Links to ${block.previous_id ?? 'no block'}, expected ${expectedPreviousId ?? 'no block'}`,
+              'BROKEN_LINK'
+            );
+          }
+
+          previous = block;
+          checkedBlocks++;
         }
-      }
 
-      // Delete blocks (cascades to transactions and outputs)
-      await this.blockRepo.deleteBlocksAboveHeight(client, targetHeight);
+        if (blocks.length < CHAIN_VERIFY_PAGE_SIZE) {
+          break;
+        }
+      }
 
-      await client.query('COMMIT');
-    } catch (error) {
-      await client.query('ROLLBACK');
-      throw error;
-    } finally {
-      client.release();
-    }
+      return {
+        valid: issues.length === 0,
+        height: previous?.height ?? 0,
+        checkedBlocks,
+        issues,
+      };
+    });
   }
 
   async getCurrentHeight(): Promise<number> {
@@ -0,0 +1,59 @@
+import { config } from '../config';
+import { parseAmount } from '../utils/amount';
+
+export type IssuancePolicyName = 'genesis-only' | 'fixed' | 'halving';
+
+export interface IssuancePolicyOptions {
+  policy: IssuancePolicyName;
+  blockReward: bigint;
+  halvingInterval: number;
+}
+
+const POLICIES: IssuancePolicyName[] = ['genesis-only', 'fixed', 'halving'];
+
+export class IssuancePolicy {
+  constructor(private options: IssuancePolicyOptions) {
+    if (!POLICIES.includes(options.policy)) {
+      throw new Error(
+        `Unknown issuance policy "${options.policy}". Expected one of: ${POLICIES.join(', ')}`
+      );
+    }
+
+    if (
+      options.policy === 'halving' &&
+      (!Number.isInteger(options.halvingInterval) || options.halvingInterval < 1)
+    ) {
+      throw new Error('Halving interval must be a positive number of blocks');
+    }
+  }
+
+  static fromConfig(): IssuancePolicy {
+    return new IssuancePolicy({
+      policy: config.blockchain.issuance.policy as IssuancePolicyName,
+      blockReward: parseAmount(config.blockchain.issuance.blockReward),
+      halvingInterval: config.blockchain.issuance.halvingInterval,
+    });
+  }
+
+  /**
+   * Maximum value input-less (coinbase) transactions may mint at the given
+   * height, on top of the fees paid in the block. Returns null when minting
+   * is unrestricted, which is always the case for the genesis block.
+   */
+  getSubsidy(height: number): bigint | null {
+    if (height <= 1) {
+      return null;
+    }
+
+    switch (this.options.policy) {
+      case 'genesis-only':
+        return 0n;
+      case 'fixed':
+        return this.options.blockReward;
+      case 'halving': {
+        const halvings = Math.floor((height - 1) / this.options.halvingInterval);
+        return this.options.blockReward >> BigInt(halvings);
+      }
+    }
+  }
+}
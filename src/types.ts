@@ -1,11 +1,16 @@
+// Amounts (values, balances, fees) are bigint base units, see utils/amount
 export interface Output {
   address: string;
-  value: number;
+  value: bigint;
 }
 
 export interface Input {
   txId: string;
   index: number;
+  // Hex signature over the transaction contents and hex SPKI DER public key,
+  // checked against the spent output's address when VERIFY_SIGNATURES is on
+  signature?: string;
+  publicKey?: string;
 }
 
 export interface Transaction {
@@ -17,5 +22,111 @@ export interface Transaction {
 export interface Block {
   id: string;
   height: number;
+  // ID of the block this one builds on; omitted (or null) for the genesis block
+  previousId?: string | null;
   transactions: Array<Transaction>;
-}
\ No newline at end of file
+}
+
+export interface Utxo {
+  txId: string;
+  index: number;
+  value: bigint;
+  height: number;
+}
+
+export interface UtxoPage {
+  utxos: Array<Utxo>;
+  nextCursor: string | null;
+}
+
+export interface AddressHistoryEntry {
+  txId: string;
+  height: number;
+  received: bigint;
+  sent: bigint;
+  delta: bigint;
+  balance: bigint;
+}
+
+export interface StoredInput {
+  txId: string;
+  index: number;
+  address: string;
+  value: bigint;
+  signature?: string;
+  publicKey?: string;
+}
+
+export interface StoredOutput {
+  index: number;
+  address: string;
+  value: bigint;
+  spent: boolean;
+  spentByTx: string | null;
+}
+
+export interface StoredTransaction {
+  id: string;
+  blockId: string;
+  height: number;
+  fee: bigint;
+  inputs: Array<StoredInput>;
+  outputs: Array<StoredOutput>;
+}
+
+export interface StoredBlock {
+  id: string;
+  height: number;
+  previousId: string | null;
+  transactions: Array<StoredTransaction>;
+}
+
+export interface SupplyStats {
+  height: number;
+  totalMinted: bigint;
+  totalUnspent: bigint;
+  utxoCount: number;
+  addressCount: number;
+}
+
+export interface RichListEntry {
+  rank: number;
+  address: string;
+  balance: bigint;
+}
+
+export interface BlockViolation {
+  error: string;
+  code?: string;
+}
+
+export interface BlockValidationResult {
+  valid: boolean;
+  violations: Array<BlockViolation>;
+}
+
+export interface ChainIssue {
+  height: number;
+  blockId: string;
+  error: string;
+  code: string;
+}
+
+export interface ChainVerificationResult {
+  valid: boolean;
+  height: number;
+  checkedBlocks: number;
+  issues: Array<ChainIssue>;
+}
+
+export interface TransactionProof {
+  txId: string;
+  blockId: string;
+  height: number;
+  index: number;
+  merkleRoot: string;
+  // Whether the block ID commits to merkleRoot, so the proof can be checked
+  // against the block ID alone
+  anchored: boolean;
+  proof: Array<{ hash: string; position: 'left' | 'right' }>;
+}
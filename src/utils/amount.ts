@@ -0,0 +1,100 @@
+import { ValidationError } from '../errors';
+import { config } from '../config';
+
+// Amounts are held as bigint base units with a fixed number of decimals, so
+// values round-trip exactly between request bodies, Postgres NUMERIC columns
+// and API responses.
+const DECIMAL_PATTERN = /^(\d+)(?:\.(\d+))?(?:e([+-]?\d+))?$/i;
+
+// How far exponents may reach beyond the number of decimals
+const MAX_EXTRA_EXPONENT = 30;
+
+function unitScale(): bigint {
+  return 10n ** BigInt(config.blockchain.valueDecimals);
+}
+
+export function parseAmount(value: unknown): bigint {
+  let text: string;
+
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value) || value < 0) {
+      throw new ValidationError(`Invalid amount: ${value}`, 'INVALID_VALUE');
+    }
+    if (Number.isInteger(value) && !Number.isSafeInteger(value)) {
+      throw new ValidationError(
+        `Amount ${value} exceeds safe integer precision; send it as a string`,
+        'INVALID_VALUE'
+      );
+    }
+    text = value.toString();
+  } else if (typeof value === 'string') {
+    text = value;
+  } else {
+    throw new ValidationError(`Invalid amount: ${String(value)}`, 'INVALID_VALUE');
+  }
+
+  const match = DECIMAL_PATTERN.exec(text);
+  if (!match) {
+    throw new ValidationError(`Invalid amount: ${text}`, 'INVALID_VALUE');
+  }
+
+  const [, integerPart, fractionPart = '', exponent = '0'] = match;
+
+  // Large exponents would make the power of ten below arbitrarily expensive
+  const maxExponent = config.blockchain.valueDecimals + MAX_EXTRA_EXPONENT;
+  if (Math.abs(parseInt(exponent)) > maxExponent) {
+    throw new ValidationError(`Amount exponent out of range: ${text}`, 'INVALID_VALUE');
+  }
+
+  const digits = integerPart + fractionPart;
+  const shift = config.blockchain.valueDecimals + parseInt(exponent) - fractionPart.length;
+
+  if (shift >= 0) {
+    return BigInt(digits) * 10n ** BigInt(shift);
+  }
+
+  // Digits below the smallest unit must all be zero; drop them as text rather
+  // than dividing by a power of ten as long as the input
+  const kept = digits.slice(0, shift);
+  if (!/^0*$/.test(digits.slice(shift))) {
+    throw new ValidationError(
+      `Amount ${text} has more than ${config.blockchain.valueDecimals} decimal places`,
+      'INVALID_VALUE'
+    );
+  }
+
+  return BigInt(kept || '0');
+}
+
+export function formatAmount(amount: bigint): string {
+  const sign = amount < 0n ? '-' : '';
+  const absolute = amount < 0n ? -amount : amount;
+  const scale = unitScale();
+
+  const integerPart = (absolute / scale).toString();
+  const fractionPart = (absolute % scale)
+    .toString()
+    .padStart(config.blockchain.valueDecimals, '0')
+    .replace(/0+$/, '');
+
+  return fractionPart ? `${sign}${integerPart}.${fractionPart}` : `${sign}${integerPart}`;
+}
+
+// Replaces every bigint in a response payload with its decimal string form
+export function serializeAmounts(payload: unknown): unknown {
+  if (typeof payload === 'bigint') {
+    return formatAmount(payload);
+  }
+
+  if (Array.isArray(payload)) {
+    return payload.map(serializeAmounts);
+  }
+
+  if (payload && typeof payload === 'object' && payload.constructor === Object) {
+    return Object.fromEntries(
+      Object.entries(payload).map(([key, value]) => [key, serializeAmounts(value)])
+    );
+  }
+
+  return payload;
+}
@@ -1,5 +1,10 @@
 import { Block, Transaction, Input, Output } from '../types';
-import { ValidationError } from '../errors';
+import { ValidationError, throwViolation } from '../errors';
+import type { ViolationHandler } from '../errors';
+import { parseAmount } from '../utils/amount';
+import { config } from '../config';
+import { calculateTransactionId } from '../crypto/transactionId';
+import { MAX_INTEGER } from './QueryValidator';
 
 export class BlockValidator {
   static validateBlockSchema(data: any): Block {
@@ -15,21 +20,67 @@ export class BlockValidator {
       throw new ValidationError('Block height must be a positive number');
     }
 
+    if (!Number.isInteger(data.height) || data.height > MAX_INTEGER) {
+      throw new ValidationError(
+        `Block height must be an integer no greater than ${MAX_INTEGER}`,
+        'INVALID_HEIGHT'
+      );
+    }
+
+    if (
+      data.previousId !== undefined &&
+      data.previousId !== null &&
+      (typeof data.previousId !== 'string' || !data.previousId)
+    ) {
+      throw new ValidationError('Previous block ID must be a non-empty string');
+    }
+
     if (!Array.isArray(data.transactions)) {
       throw new ValidationError('Block transactions must be an array');
     }
 
-    const transactions = data.transactions.map((tx: any) =>
+    const transactions: Transaction[] = data.transactions.map((tx: any) =>
       this.validateTransactionSchema(tx)
     );
 
     return {
       id: data.id,
       height: data.height,
+      ...(data.previousId !== undefined && { previousId: data.previousId }),
       transactions,
     };
   }
 
+  // Checked while validating the block against the chain rather than with the
+  // schema, so dry-run validation can report every offending ID
+  static validateTransactionIds(block: Block, report: ViolationHandler = throwViolation): void {
+    const seenIds = new Set<string>();
+
+    for (const tx of block.transactions) {
+      if (seenIds.has(tx.id)) {
+        report(
+          new ValidationError(
+            `Duplicate transaction ID in block: ${tx.id}`,
+            'DUPLICATE_TRANSACTION'
+          )
+        );
+      }
+      seenIds.add(tx.id);
+
+      if (config.blockchain.verifyTransactionIds) {
+        const expectedId = calculateTransactionId(tx, block.height);
+        if (tx.id !== expectedId) {
+          report(
+            new ValidationError(
+              `Transaction ID does not match its contents: ${tx.id}. Expected ${expectedId}`,
+              'INVALID_TX_ID'
+            )
+          );
+        }
+      }
+    }
+  }
+
   static validateTransactionSchema(data: any): Transaction {
     if (!data || typeof data !== 'object') {
       throw new ValidationError('Invalid transaction data');
@@ -75,9 +126,26 @@ export class BlockValidator {
       throw new ValidationError('Input index must be a non-negative number');
     }
 
+    if (!Number.isInteger(data.index) || data.index > MAX_INTEGER) {
+      throw new ValidationError(
+        `Input index must be an integer no greater than ${MAX_INTEGER}`,
+        'INVALID_INPUT'
+      );
+    }
+
+    if (data.signature !== undefined && !this.isHex(data.signature)) {
+      throw new ValidationError('Input signature must be a non-empty hex string');
+    }
+
+    if (data.publicKey !== undefined && !this.isHex(data.publicKey)) {
+      throw new ValidationError('Input publicKey must be a non-empty hex string');
+    }
+
     return {
       txId: data.txId,
       index: data.index,
+      ...(data.signature !== undefined && { signature: data.signature }),
+      ...(data.publicKey !== undefined && { publicKey: data.publicKey }),
     };
   }
 
@@ -90,13 +158,56 @@ export class BlockValidator {
       throw new ValidationError('Output address must be a non-empty string');
     }
 
-    if (typeof data.value !== 'number' || data.value < 0) {
+    if (
+      (typeof data.value !== 'number' && typeof data.value !== 'string') ||
+      Number(data.value) < 0
+    ) {
       throw new ValidationError('Output value must be a non-negative number');
     }
 
     return {
       address: data.address,
-      value: data.value,
+      value: parseAmount(data.value),
+    };
+  }
+
+  private static isHex(value: unknown): boolean {
+    return typeof value === 'string' && value.length % 2 === 0 && /^[0-9a-fA-F]+$/.test(value);
+  }
+
+  static validateBatchSchema(data: any): Block[] {
+    if (!Array.isArray(data) || data.length === 0) {
+      throw new ValidationError('Batch must be a non-empty array of blocks', 'INVALID_BATCH');
+    }
+
+    if (data.length > config.blockchain.maxBatchBlocks) {
+      throw new ValidationError(
+        `Batch cannot contain more than ${config.blockchain.maxBatchBlocks} blocks`,
+        'INVALID_BATCH'
+      );
+    }
+
+    return data.map((block: any) => this.validateBlockSchema(block));
+  }
+
+  static validateReorgSchema(data: any): { forkHeight: number; blocks: Block[] } {
+    if (!data || typeof data !== 'object') {
+      throw new ValidationError('Invalid reorg data');
+    }
+
+    if (!Number.isInteger(data.forkHeight) || data.forkHeight < 0) {
+      throw new ValidationError('Fork height must be a non-negative integer');
+    }
+
+    if (!Array.isArray(data.blocks) || data.blocks.length === 0) {
+      throw new ValidationError('Reorg blocks must be a non-empty array');
+    }
+
+    const blocks = data.blocks.map((block: any) => this.validateBlockSchema(block));
+
+    return {
+      forkHeight: data.forkHeight,
+      blocks,
     };
   }
 
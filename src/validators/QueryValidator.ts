@@ -0,0 +1,99 @@
+import { ValidationError } from '../errors';
+import { config } from '../config';
+import { parseAmount } from '../utils/amount';
+
+// Largest value a Postgres INTEGER column (heights, output indexes) can hold
+export const MAX_INTEGER = 2_147_483_647;
+
+export class QueryValidator {
+  static validateLimit(limit: any): number {
+    if (limit === undefined || limit === null || limit === '') {
+      return config.pagination.defaultLimit;
+    }
+
+    const parsed = Number(limit);
+
+    if (!Number.isInteger(parsed) || parsed < 1) {
+      throw new ValidationError('Limit must be a positive integer', 'INVALID_LIMIT');
+    }
+
+    if (parsed > config.pagination.maxLimit) {
+      throw new ValidationError(
+        `Limit cannot exceed ${config.pagination.maxLimit}`,
+        'INVALID_LIMIT'
+      );
+    }
+
+    return parsed;
+  }
+
+  static validateCursor(cursor: any): number | undefined {
+    if (cursor === undefined || cursor === null || cursor === '') {
+      return undefined;
+    }
+
+    const parsed = Number(cursor);
+
+    if (!Number.isInteger(parsed) || parsed < 0 || parsed > MAX_INTEGER) {
+      throw new ValidationError('Invalid cursor', 'INVALID_CURSOR');
+    }
+
+    return parsed;
+  }
+
+  static validateMinValue(minValue: any): bigint | undefined {
+    if (minValue === undefined || minValue === null || minValue === '') {
+      return undefined;
+    }
+
+    try {
+      return parseAmount(minValue);
+    } catch {
+      throw new ValidationError('minValue must be a non-negative number', 'INVALID_MIN_VALUE');
+    }
+  }
+
+  static validateHeight(height: any): number | undefined {
+    if (height === undefined || height === null || height === '') {
+      return undefined;
+    }
+
+    const parsed = Number(height);
+
+    if (!Number.isInteger(parsed) || parsed < 0) {
+      throw new ValidationError('Invalid height parameter', 'INVALID_HEIGHT');
+    }
+
+    return parsed;
+  }
+
+  static validateHeightRange(from: any, to: any): { from: number; to: number } {
+    const parsedFrom = Number(from);
+    const parsedTo = Number(to);
+
+    if (
+      !Number.isInteger(parsedFrom) ||
+      !Number.isInteger(parsedTo) ||
+      parsedFrom < 1 ||
+      parsedTo < parsedFrom
+    ) {
+      throw new ValidationError(
+        'from and to must be positive integers with from <= to',
+        'INVALID_RANGE'
+      );
+    }
+
+    if (parsedTo > MAX_INTEGER) {
+      throw new ValidationError(`Heights cannot exceed ${MAX_INTEGER}`, 'INVALID_RANGE');
+    }
+
+    if (parsedTo - parsedFrom + 1 > config.pagination.maxBlockRange) {
+      throw new ValidationError(
+        `Cannot request more than ${config.pagination.maxBlockRange} blocks at once`,
+        'INVALID_RANGE'
+      );
+    }
+
+    return { from: parsedFrom, to: parsedTo };
+  }
+}